@@ -0,0 +1,67 @@
+import { OperationAbortedError, OperationTimeoutError } from './errors';
+
+export interface OperationOptions {
+    signal?: AbortSignal;
+    timeout?: number;
+}
+
+// Merges the caller signal and the timeout in a single signal for all the
+// easyrsa commands of an operation. The timer and the listener on the caller
+// signal are dropped once the operation settles.
+export async function runOperation<T>(
+    { signal, timeout }: OperationOptions,
+    operation: (signal: AbortSignal | undefined) => Promise<T>,
+): Promise<T> {
+    if (timeout === undefined) return await operation(signal);
+    if (!(Number.isInteger(timeout) && timeout > 0))
+        throw new Error('Timeout not valid');
+
+    const controller = new AbortController();
+    const timer = setTimeout(
+        () =>
+            controller.abort(
+                new OperationTimeoutError(
+                    `Operation timed out after ${timeout}ms`,
+                ),
+            ),
+        timeout,
+    );
+    timer.unref();
+    const onAbort = () => controller.abort(signal?.reason);
+
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+        return await operation(controller.signal);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+// Resolves when the promise settles or rejects as soon as the signal aborts
+export function untilAborted(
+    promise: Promise<unknown>,
+    signal?: AbortSignal,
+): Promise<void> {
+    if (!signal) return promise.then(() => undefined);
+    return new Promise((res, rej) => {
+        const onAbort = () => rej(abortError(signal));
+        if (signal.aborted) return onAbort();
+        signal.addEventListener('abort', onAbort, { once: true });
+        void promise
+            .then(() => res(), rej)
+            .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+export function abortError(
+    signal: AbortSignal,
+): OperationAbortedError | OperationTimeoutError {
+    if (signal.reason instanceof OperationTimeoutError) return signal.reason;
+    return new OperationAbortedError('Operation aborted');
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) throw abortError(signal);
+}
@@ -0,0 +1,126 @@
+export interface ArchiveEntry {
+    path: string;
+    mode: number;
+    // Directories have no data
+    data?: Buffer;
+}
+
+const blockSize = 512;
+
+function writeString(
+    block: Buffer,
+    value: string,
+    offset: number,
+    size: number,
+) {
+    if (Buffer.byteLength(value) > size) throw new Error('Path too long');
+    block.write(value, offset, size, 'utf8');
+}
+
+function writeOctal(
+    block: Buffer,
+    value: number,
+    offset: number,
+    size: number,
+) {
+    block.write(`${value.toString(8).padStart(size - 1, '0')}\0`, offset);
+}
+
+function readString(block: Buffer, offset: number, size: number): string {
+    const value = block.subarray(offset, offset + size);
+    const end = value.indexOf(0);
+    return value.subarray(0, end === -1 ? size : end).toString('utf8');
+}
+
+function readOctal(block: Buffer, offset: number, size: number): number {
+    return parseInt(readString(block, offset, size).trim() || '0', 8);
+}
+
+function checksum(block: Buffer): number {
+    let sum = 0;
+    for (let index = 0; index < blockSize; index++)
+        sum += index >= 148 && index < 156 ? 0x20 : block[index];
+    return sum;
+}
+
+// ustar header, paths longer than 100 bytes are split into the prefix field
+function header({ path, mode, data }: ArchiveEntry, mtime: number): Buffer {
+    const block = Buffer.alloc(blockSize);
+    const name = data ? path : `${path}/`;
+    let prefix = '';
+    let suffix = name;
+    if (Buffer.byteLength(name) > 100) {
+        const split = name.lastIndexOf('/', name.length - 2);
+        prefix = name.slice(0, split);
+        suffix = name.slice(split + 1);
+    }
+
+    writeString(block, suffix, 0, 100);
+    writeOctal(block, mode & 0o7777, 100, 8);
+    writeOctal(block, 0, 108, 8);
+    writeOctal(block, 0, 116, 8);
+    writeOctal(block, data?.length ?? 0, 124, 12);
+    writeOctal(block, mtime, 136, 12);
+    block.write(data ? '0' : '5', 156);
+    block.write('ustar\0', 257);
+    block.write('00', 263);
+    writeString(block, prefix, 345, 155);
+    block.write(`${checksum(block).toString(8).padStart(6, '0')}\0 `, 148);
+
+    return block;
+}
+
+export function createTar(entries: ArchiveEntry[], mtime = new Date()): Buffer {
+    const seconds = Math.floor(mtime.getTime() / 1000);
+    const blocks: Buffer[] = [];
+
+    for (const entry of entries) {
+        blocks.push(header(entry, seconds));
+        if (entry.data) {
+            blocks.push(entry.data);
+            const padding =
+                (blockSize - (entry.data.length % blockSize)) % blockSize;
+            blocks.push(Buffer.alloc(padding));
+        }
+    }
+    blocks.push(Buffer.alloc(blockSize * 2));
+
+    return Buffer.concat(blocks);
+}
+
+export function readTar(archive: Buffer): ArchiveEntry[] {
+    const entries: ArchiveEntry[] = [];
+    let offset = 0;
+
+    while (offset + blockSize <= archive.length) {
+        const block = archive.subarray(offset, offset + blockSize);
+        if (block.every((byte) => byte === 0)) return entries;
+        if (readOctal(block, 148, 8) !== checksum(block))
+            throw new Error('Archive not valid');
+
+        const prefix = readString(block, 345, 155);
+        const name = readString(block, 0, 100);
+        const path = (prefix ? `${prefix}/${name}` : name).replace(/\/$/, '');
+        const mode = readOctal(block, 100, 8);
+        const size = readOctal(block, 124, 12);
+        const type = String.fromCharCode(block[156]);
+        offset += blockSize;
+
+        if (type === '5') {
+            entries.push({ path, mode });
+        } else if (type === '0' || type === '\0') {
+            if (offset + size > archive.length)
+                throw new Error('Archive not valid');
+            entries.push({
+                path,
+                mode,
+                data: Buffer.from(archive.subarray(offset, offset + size)),
+            });
+        } else {
+            throw new Error('Archive not valid');
+        }
+        offset += Math.ceil(size / blockSize) * blockSize;
+    }
+
+    throw new Error('Archive not valid');
+}
@@ -0,0 +1,267 @@
+import {
+    X509Certificate,
+    createCipheriv,
+    createDecipheriv,
+    createHash,
+    createPrivateKey,
+    createPublicKey,
+    randomBytes,
+    scrypt,
+} from 'node:crypto';
+import { readFile, readdir, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { gunzip, gzip } from 'node:zlib';
+import { ArchiveEntry, createTar, readTar } from './archive';
+import { BadCaPasswordError, InvalidBackupError } from './errors';
+
+export interface BackupFile {
+    path: string;
+    size: number;
+    sha256: string;
+}
+
+export interface BackupManifest {
+    version: number;
+    createdAt: string;
+    ca?: {
+        subject: string;
+        fingerprint256: string;
+    };
+    files: BackupFile[];
+}
+
+export interface Backup {
+    manifest: BackupManifest;
+    entries: ArchiveEntry[];
+}
+
+const manifestPath = 'manifest.json';
+const pkiDir = 'pki';
+
+// Encrypted archives: magic, scrypt salt, AES-256-GCM iv and tag, ciphertext
+const Magic = Buffer.from('EASYRSA-BACKUP-AES256GCM\n');
+const saltLength = 16;
+const ivLength = 12;
+const tagLength = 16;
+
+// Files that only matter to a running operation
+const excluded = ['.lock'];
+
+const scryptAsync = promisify(scrypt) as (
+    password: string,
+    salt: Buffer,
+    keylen: number,
+) => Promise<Buffer>;
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+function sha256(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+async function collect(root: string, dir = ''): Promise<ArchiveEntry[]> {
+    const entries: ArchiveEntry[] = [];
+
+    for (const file of (await readdir(join(root, dir))).sort()) {
+        const path = dir ? `${dir}/${file}` : file;
+        if (!dir && excluded.includes(file)) continue;
+
+        const stats = await stat(join(root, path));
+        if (stats.isDirectory()) {
+            entries.push({ path, mode: stats.mode });
+            entries.push(...(await collect(root, path)));
+        } else if (stats.isFile()) {
+            entries.push({
+                path,
+                mode: stats.mode,
+                data: await readFile(join(root, path)),
+            });
+        }
+    }
+
+    return entries;
+}
+
+async function encrypt(data: Buffer, passphrase: string): Promise<Buffer> {
+    const salt = randomBytes(saltLength);
+    const iv = randomBytes(ivLength);
+    const cipher = createCipheriv(
+        'aes-256-gcm',
+        await scryptAsync(passphrase, salt, 32),
+        iv,
+    );
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+    return Buffer.concat([Magic, salt, iv, cipher.getAuthTag(), encrypted]);
+}
+
+async function decrypt(data: Buffer, passphrase: string): Promise<Buffer> {
+    let offset = Magic.length;
+    const salt = data.subarray(offset, (offset += saltLength));
+    const iv = data.subarray(offset, (offset += ivLength));
+    const tag = data.subarray(offset, (offset += tagLength));
+
+    try {
+        const decipher = createDecipheriv(
+            'aes-256-gcm',
+            await scryptAsync(passphrase, salt, 32),
+            iv,
+        );
+        decipher.setAuthTag(tag);
+        return Buffer.concat([
+            decipher.update(data.subarray(offset)),
+            decipher.final(),
+        ]);
+    } catch {
+        throw new InvalidBackupError(
+            'Backup could not be decrypted, the passphrase is wrong or the file is damaged',
+        );
+    }
+}
+
+// A gzipped tar with the manifest first and the PKI files under pki/
+export async function createBackup(
+    pki: string,
+    passphrase?: string,
+): Promise<Buffer> {
+    const entries = await collect(pki);
+    const files = entries.filter(({ data }) => data);
+
+    const manifest: BackupManifest = {
+        version: 1,
+        createdAt: new Date().toISOString(),
+        files: files.map(({ path, data }) => ({
+            path,
+            size: (data as Buffer).length,
+            sha256: sha256(data as Buffer),
+        })),
+    };
+    const ca = files.find(({ path }) => path === 'ca.crt');
+    if (ca) {
+        const cert = new X509Certificate(ca.data as Buffer);
+        manifest.ca = {
+            subject: cert.subject,
+            fingerprint256: cert.fingerprint256,
+        };
+    }
+
+    const archive = await gzipAsync(
+        createTar([
+            {
+                path: manifestPath,
+                mode: 0o644,
+                data: Buffer.from(JSON.stringify(manifest, null, 2)),
+            },
+            { path: pkiDir, mode: 0o700 },
+            ...entries.map((entry) => ({
+                ...entry,
+                path: `${pkiDir}/${entry.path}`,
+            })),
+        ]),
+    );
+
+    return passphrase ? await encrypt(archive, passphrase) : archive;
+}
+
+// Decrypts and unpacks an archive, checking every file against the manifest
+export async function readBackup(
+    archive: Buffer,
+    passphrase?: string,
+): Promise<Backup> {
+    if (archive.subarray(0, Magic.length).equals(Magic)) {
+        if (!passphrase) throw new InvalidBackupError('Backup is encrypted');
+        archive = await decrypt(archive, passphrase);
+    }
+
+    let manifest: BackupManifest;
+    let entries: ArchiveEntry[];
+    try {
+        const [first, ...rest] = readTar(await gunzipAsync(archive)).filter(
+            ({ path }) => path !== pkiDir,
+        );
+        if (first?.path !== manifestPath || !first.data) throw new Error();
+        manifest = JSON.parse(first.data.toString('utf8')) as BackupManifest;
+        entries = rest;
+        if (manifest.version !== 1 || !Array.isArray(manifest.files))
+            throw new Error();
+    } catch {
+        throw new InvalidBackupError('Backup not valid');
+    }
+
+    const prefix = `${pkiDir}/`;
+    if (entries.some(({ path }) => !path.startsWith(prefix)))
+        throw new InvalidBackupError('Backup not valid');
+    entries = entries.map((entry) => ({
+        ...entry,
+        path: entry.path.slice(prefix.length),
+    }));
+    if (
+        entries.some(({ path }) =>
+            path.split('/').some((part) => part === '..' || part === ''),
+        )
+    )
+        throw new InvalidBackupError('Backup not valid');
+
+    const files = new Map(
+        entries.filter(({ data }) => data).map((entry) => [entry.path, entry]),
+    );
+    if (files.size !== manifest.files.length)
+        throw new InvalidBackupError('Backup files do not match the manifest');
+    for (const { path, size, sha256: checksum } of manifest.files) {
+        const data = files.get(path)?.data;
+        if (!data || data.length !== size || sha256(data) !== checksum)
+            throw new InvalidBackupError(`Checksum mismatch: ${path}`);
+    }
+
+    return { manifest, entries };
+}
+
+function certificate(data: Buffer, path: string): X509Certificate {
+    try {
+        return new X509Certificate(data);
+    } catch {
+        throw new InvalidBackupError(`Certificate not valid: ${path}`);
+    }
+}
+
+// The CA of the backup must be the one of the manifest, its private key must
+// match (when it can be read) and the issued certificates must be signed by it
+export function checkCa({ manifest, entries }: Backup, caPassword?: string) {
+    const file = (path: string) =>
+        entries.find((entry) => entry.path === path)?.data;
+    const pem = file('ca.crt');
+
+    if (!pem) {
+        if (manifest.ca) throw new InvalidBackupError('CA not found in backup');
+        return;
+    }
+    const ca = certificate(pem, 'ca.crt');
+    if (ca.fingerprint256 !== manifest.ca?.fingerprint256)
+        throw new InvalidBackupError('CA does not match the manifest');
+
+    const key = file('private/ca.key');
+    if (key && (caPassword || !key.includes('ENCRYPTED'))) {
+        let publicKey: Buffer;
+        try {
+            publicKey = createPublicKey(
+                createPrivateKey({ key, passphrase: caPassword }),
+            ).export({ type: 'spki', format: 'der' });
+        } catch {
+            throw new BadCaPasswordError('CA private key could not be read');
+        }
+        if (
+            !publicKey.equals(
+                ca.publicKey.export({ type: 'spki', format: 'der' }),
+            )
+        )
+            throw new InvalidBackupError('CA private key does not match');
+    }
+
+    for (const { path, data } of entries) {
+        if (!data || !/^issued\/[^/]+\.crt$/.test(path)) continue;
+        if (!certificate(data, path).verify(ca.publicKey))
+            throw new InvalidBackupError(
+                `Certificate not issued by CA: ${path}`,
+            );
+    }
+}
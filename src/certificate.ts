@@ -0,0 +1,247 @@
+import {
+    KeyObject,
+    X509Certificate,
+    createPublicKey,
+    verify,
+} from 'node:crypto';
+import type { Subject } from './index';
+import { SubjectAltName, SubjectAltNameType, extractPem } from './utils';
+
+export const KeyUsage = [
+    'digitalSignature',
+    'nonRepudiation',
+    'keyEncipherment',
+    'dataEncipherment',
+    'keyAgreement',
+    'keyCertSign',
+    'cRLSign',
+    'encipherOnly',
+    'decipherOnly',
+] as const;
+export type KeyUsage = (typeof KeyUsage)[number];
+
+const ExtendedKeyUsage: Record<string, string> = {
+    '1.3.6.1.5.5.7.3.1': 'serverAuth',
+    '1.3.6.1.5.5.7.3.2': 'clientAuth',
+    '1.3.6.1.5.5.7.3.3': 'codeSigning',
+    '1.3.6.1.5.5.7.3.4': 'emailProtection',
+    '1.3.6.1.5.5.7.3.8': 'timeStamping',
+    '1.3.6.1.5.5.7.3.9': 'OCSPSigning',
+    '1.3.6.1.5.2.3.5': 'pkinitKDC',
+};
+
+export interface CertificateInfo {
+    pem: string;
+    subject: string;
+    issuer: string;
+    serial: string;
+    isCa: boolean;
+    subjectAltNames: SubjectAltName[];
+    keyAlgorithm: string;
+    keySize?: number;
+    curve?: string;
+    validFrom: Date;
+    validTo: Date;
+    fingerprint: string;
+    fingerprint256: string;
+    keyUsage: KeyUsage[];
+    extendedKeyUsage: string[];
+}
+
+// id-ce-keyUsage (2.5.29.15) encoded as an OBJECT IDENTIFIER
+const keyUsageOid = Buffer.from([0x06, 0x03, 0x55, 0x1d, 0x0f]);
+
+function parseKeyUsage(der: Buffer): KeyUsage[] {
+    let offset = der.indexOf(keyUsageOid);
+    if (offset === -1) return [];
+    offset += keyUsageOid.length;
+
+    // Skip the optional critical flag
+    if (der[offset] === 0x01) offset += 2 + der[offset + 1];
+
+    // OCTET STRING wrapping a BIT STRING
+    if (der[offset] !== 0x04 || der[offset + 2] !== 0x03) return [];
+    const length = der[offset + 3];
+    const bits = der.subarray(offset + 5, offset + 4 + length);
+
+    return KeyUsage.filter(
+        (_usage, index) => (bits[index >> 3] ?? 0) & (0x80 >> (index & 7)),
+    );
+}
+
+function parseSubjectAltNames(value?: string): SubjectAltName[] {
+    if (!value) return [];
+
+    return value
+        .split(', ')
+        .map((entry) => {
+            const separator = entry.indexOf(':');
+            const type = entry.slice(0, separator);
+            return {
+                type: (type === 'IP Address'
+                    ? 'IP'
+                    : type) as SubjectAltNameType,
+                value: entry.slice(separator + 1),
+            };
+        })
+        .filter(({ type }) => SubjectAltNameType.includes(type));
+}
+
+const SubjectFields: Record<string, keyof Subject | 'commonName'> = {
+    C: 'country',
+    ST: 'state',
+    L: 'city',
+    O: 'organization',
+    OU: 'organizationalUnit',
+    CN: 'commonName',
+    emailAddress: 'email',
+};
+
+// The subject as printed by X509Certificate, one escaped field per line
+export function parseSubject(
+    subject: string,
+): Subject & { commonName?: string } {
+    const fields: Subject & { commonName?: string } = {};
+    for (const line of subject.split('\n')) {
+        const separator = line.indexOf('=');
+        const field = SubjectFields[line.slice(0, separator)];
+        if (field)
+            fields[field] = line.slice(separator + 1).replace(/\\(.)/g, '$1');
+    }
+    return fields;
+}
+
+export function parseCertificate(pem: string): CertificateInfo {
+    const cert = new X509Certificate(pem);
+    const { asymmetricKeyType, asymmetricKeyDetails } = cert.publicKey;
+    const { bits } = cert.toLegacyObject();
+
+    return {
+        pem: extractPem(pem),
+        subject: cert.subject,
+        issuer: cert.issuer,
+        serial: cert.serialNumber,
+        isCa: cert.ca,
+        subjectAltNames: parseSubjectAltNames(cert.subjectAltName),
+        keyAlgorithm: asymmetricKeyType ?? 'unknown',
+        keySize: asymmetricKeyDetails?.modulusLength ?? bits,
+        curve: asymmetricKeyDetails?.namedCurve,
+        validFrom: new Date(cert.validFrom),
+        validTo: new Date(cert.validTo),
+        fingerprint: cert.fingerprint,
+        fingerprint256: cert.fingerprint256,
+        keyUsage: parseKeyUsage(cert.raw),
+        extendedKeyUsage: (cert.keyUsage ?? []).map(
+            (oid) => ExtendedKeyUsage[oid] ?? oid,
+        ),
+    };
+}
+
+export interface Tlv {
+    tag: number;
+    start: number;
+    end: number;
+}
+
+export function readTlv(der: Buffer, offset: number): Tlv {
+    const tag = der[offset];
+    let length = der[offset + 1];
+    let start = offset + 2;
+
+    if (length & 0x80) {
+        const bytes = length & 0x7f;
+        if (bytes < 1 || bytes > 4) throw new Error('Request not valid');
+        length = der.readUIntBE(start, bytes);
+        start += bytes;
+    }
+    if (tag === undefined || start + length > der.length)
+        throw new Error('Request not valid');
+
+    return { tag, start, end: start + length };
+}
+
+export function decodeOid(value: Buffer): string {
+    const arcs = [Math.floor(value[0] / 40), value[0] % 40];
+    let arc = 0;
+    for (const byte of value.subarray(1)) {
+        arc = arc * 128 + (byte & 0x7f);
+        if (!(byte & 0x80)) {
+            arcs.push(arc);
+            arc = 0;
+        }
+    }
+    return arcs.join('.');
+}
+
+// Signature algorithms accepted in requests, mapped to the node:crypto digest
+const SignatureAlgorithm: Record<string, string | null> = {
+    '1.2.840.113549.1.1.5': 'sha1',
+    '1.2.840.113549.1.1.14': 'sha224',
+    '1.2.840.113549.1.1.11': 'sha256',
+    '1.2.840.113549.1.1.12': 'sha384',
+    '1.2.840.113549.1.1.13': 'sha512',
+    '1.2.840.10045.4.1': 'sha1',
+    '1.2.840.10045.4.3.1': 'sha224',
+    '1.2.840.10045.4.3.2': 'sha256',
+    '1.2.840.10045.4.3.3': 'sha384',
+    '1.2.840.10045.4.3.4': 'sha512',
+    '1.3.101.112': null,
+    '1.3.101.113': null,
+};
+
+// Returns the public key of a PEM request once its signature is verified
+export function requestPublicKey(pem: string): KeyObject {
+    const match =
+        /-----BEGIN (NEW )?CERTIFICATE REQUEST-----([\s\S]+?)-----END (NEW )?CERTIFICATE REQUEST-----/.exec(
+            pem,
+        );
+    if (!match) throw new Error('Request not valid');
+
+    const der = Buffer.from(match[2].replace(/\s+/g, ''), 'base64');
+    let publicKey: KeyObject;
+    let verified: boolean;
+    try {
+        // CertificationRequest: info, signatureAlgorithm, signature
+        const request = readTlv(der, 0);
+        const info = readTlv(der, request.start);
+        const algorithm = readTlv(der, info.end);
+        const signature = readTlv(der, algorithm.end);
+
+        // CertificationRequestInfo: version, subject, subjectPKInfo
+        const version = readTlv(der, info.start);
+        const subject = readTlv(der, version.end);
+        const spki = readTlv(der, subject.end);
+
+        if (
+            request.tag !== 0x30 ||
+            info.tag !== 0x30 ||
+            spki.tag !== 0x30 ||
+            algorithm.tag !== 0x30 ||
+            signature.tag !== 0x03
+        )
+            throw new Error('Request not valid');
+
+        publicKey = createPublicKey({
+            key: der.subarray(subject.end, spki.end),
+            format: 'der',
+            type: 'spki',
+        });
+
+        const oid = readTlv(der, algorithm.start);
+        const digest =
+            SignatureAlgorithm[decodeOid(der.subarray(oid.start, oid.end))];
+        if (digest === undefined) throw new Error('Request not valid');
+
+        verified = verify(
+            digest,
+            der.subarray(request.start, info.end),
+            publicKey,
+            der.subarray(signature.start + 1, signature.end),
+        );
+    } catch {
+        throw new Error('Request not valid');
+    }
+
+    if (!verified) throw new Error('Request signature not valid');
+    return publicKey;
+}
@@ -0,0 +1,422 @@
+#!/usr/bin/env node
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Interface, createInterface } from 'node:readline';
+import { Writable } from 'node:stream';
+import { parseArgs } from 'node:util';
+import EasyRSA, {
+    CertificateInfo,
+    CertificateRecord,
+    EasyRSAArgs,
+    RevokeReason,
+    SubjectAltName,
+    SubjectAltNameType,
+} from './index';
+import { CaAlreadyExistsError, PrivateKeyIsEncryptedError } from './errors';
+import { parseStatuses, parseTypes } from './database';
+
+export interface CliIO {
+    stdin: NodeJS.ReadableStream & { isTTY?: boolean };
+    stdout: NodeJS.WritableStream;
+    stderr: NodeJS.WritableStream;
+}
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+const usage = `Usage: easyrsa-wrapper <command> [options]
+
+Commands:
+  init                     Initialize the PKI (--force replaces a PKI with a
+                             CA, --soft keeps the vars file)
+  build-ca                 Build the CA (--cn <name>, --nopass)
+  server <name>            Create a server certificate
+  client <name>            Create a client certificate
+                             --cn <name>, --san <TYPE:value>..., --pass
+  revoke <name>            Revoke a certificate (--reason <reason>)
+  renew <name>             Renew a certificate
+  crl                      Generate the certificate revocation list
+  list                     List certificates (--status, --type, --name)
+  show <name>              Show a certificate (--ca shows the CA)
+
+Options:
+  --config <file>          JSON file with the EasyRSA options
+  --pki <dir>              PKI directory
+  --days <days>            CA validity days
+  --cert-days <days>       Certificate validity days
+  --crl-days <days>        CRL validity days
+  --digest <digest>        Digest algorithm
+  --algo <rsa|ec|ed>       Key algorithm
+  --key-size <bits>        RSA key size
+  --curve <curve>          EC or Edwards curve
+  --dn-mode <mode>         Distinguished name mode (cn_only or org)
+  --expiry-window <days>   Renewal window days
+  --lock-timeout <ms>      PKI lock wait timeout
+  --json                   Print the result as JSON
+  -h, --help               Show this help
+
+The CA password is asked when the CA key is encrypted. Passwords are read
+from the terminal without echo, or one per line from stdin.
+`;
+
+const options = {
+    config: { type: 'string' },
+    pki: { type: 'string' },
+    days: { type: 'string' },
+    'cert-days': { type: 'string' },
+    'crl-days': { type: 'string' },
+    digest: { type: 'string' },
+    algo: { type: 'string' },
+    'key-size': { type: 'string' },
+    curve: { type: 'string' },
+    'dn-mode': { type: 'string' },
+    'expiry-window': { type: 'string' },
+    'lock-timeout': { type: 'string' },
+    json: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+    soft: { type: 'boolean' },
+    force: { type: 'boolean' },
+    cn: { type: 'string' },
+    nopass: { type: 'boolean' },
+    pass: { type: 'boolean' },
+    san: { type: 'string', multiple: true },
+    reason: { type: 'string' },
+    status: { type: 'string' },
+    type: { type: 'string' },
+    name: { type: 'string' },
+    ca: { type: 'boolean' },
+} as const;
+
+type Flags = ReturnType<
+    typeof parseArgs<{ options: typeof options }>
+>['values'];
+
+// Passwords are read from a single readline interface, so several of them
+// can be piped through stdin. The terminal echo is muted while reading.
+class PasswordPrompt {
+    private readline?: Interface;
+    private lines?: AsyncIterator<string>;
+    private muted = false;
+
+    constructor(private io: CliIO) {}
+
+    async ask(question: string): Promise<string> {
+        if (!this.lines) {
+            const output = new Writable({
+                write: (chunk, _encoding, callback) => {
+                    if (!this.muted) this.io.stderr.write(chunk as Buffer);
+                    callback();
+                },
+            });
+            this.readline = createInterface({
+                input: this.io.stdin,
+                output,
+                terminal: Boolean(this.io.stdin.isTTY),
+            });
+            this.lines = this.readline[Symbol.asyncIterator]();
+        }
+
+        this.io.stderr.write(question);
+        this.muted = true;
+        const line = await this.lines.next();
+        this.muted = false;
+        this.io.stderr.write('\n');
+
+        if (line.done) throw new UsageError('Password not provided');
+        return line.value;
+    }
+
+    async askNew(question: string): Promise<string> {
+        const password = await this.ask(question);
+        if ((await this.ask('Confirm password: ')) !== password)
+            throw new UsageError('Passwords do not match');
+        return password;
+    }
+
+    close() {
+        this.readline?.close();
+    }
+}
+
+// The EasyRSA options read from the config file or the matching flags
+const settings: [keyof EasyRSAArgs, keyof Flags, 'string' | 'integer'][] = [
+    ['pki', 'pki', 'string'],
+    ['days', 'days', 'integer'],
+    ['certDays', 'cert-days', 'integer'],
+    ['crlDays', 'crl-days', 'integer'],
+    ['digest', 'digest', 'string'],
+    ['algo', 'algo', 'string'],
+    ['keySize', 'key-size', 'integer'],
+    ['curve', 'curve', 'string'],
+    ['dnMode', 'dn-mode', 'string'],
+    ['expiryWindow', 'expiry-window', 'integer'],
+    ['lockTimeout', 'lock-timeout', 'integer'],
+];
+
+function integer(flags: Flags, flag: keyof Flags): number | undefined {
+    const value = flags[flag];
+    if (value === undefined) return;
+    if (typeof value !== 'string' || !/^\d+$/.test(value))
+        throw new UsageError(`Option --${flag} not valid`);
+    return Number(value);
+}
+
+async function readConfig(flags: Flags): Promise<Partial<EasyRSAArgs>> {
+    const config: Record<string, string | number> = {};
+
+    if (flags.config) {
+        let content: unknown;
+        try {
+            content = JSON.parse(
+                await readFile(flags.config, { encoding: 'utf8' }),
+            );
+        } catch {
+            throw new UsageError(`Config file not valid: ${flags.config}`);
+        }
+        if (!content || typeof content !== 'object' || Array.isArray(content))
+            throw new UsageError(`Config file not valid: ${flags.config}`);
+
+        for (const [key, value] of Object.entries(content)) {
+            const setting = settings.find(([name]) => name === key);
+            if (!setting) throw new UsageError(`Config key not valid: ${key}`);
+            const valid =
+                setting[2] === 'integer'
+                    ? Number.isSafeInteger(value) && value >= 0
+                    : typeof value === 'string';
+            if (!valid) throw new UsageError(`Config ${key} not valid`);
+            config[key] = value as string | number;
+        }
+    }
+
+    for (const [key, flag, type] of settings) {
+        const value = type === 'integer' ? integer(flags, flag) : flags[flag];
+        if (value !== undefined) config[key] = value as string | number;
+    }
+
+    return config as Partial<EasyRSAArgs>;
+}
+
+function parseSubjectAltName(value: string): SubjectAltName {
+    const separator = value.indexOf(':');
+    return {
+        type: value.slice(0, separator) as SubjectAltNameType,
+        value: value.slice(separator + 1),
+    };
+}
+
+function list(value?: string): string[] | undefined {
+    return value ? value.split(',') : undefined;
+}
+
+function formatCertificate(cert: CertificateInfo): string {
+    const lines: [string, unknown][] = [
+        ['Subject', cert.subject],
+        ['Issuer', cert.issuer],
+        ['Serial', cert.serial],
+        ['CA', cert.isCa ? 'yes' : 'no'],
+        [
+            'Key',
+            [cert.keyAlgorithm, cert.keySize, cert.curve]
+                .filter((value) => value !== undefined)
+                .join(' '),
+        ],
+        ['Valid from', cert.validFrom.toISOString()],
+        ['Valid to', cert.validTo.toISOString()],
+        [
+            'Alt names',
+            cert.subjectAltNames
+                .map(({ type, value }) => `${type}:${value}`)
+                .join(', '),
+        ],
+        ['Key usage', cert.keyUsage.join(', ')],
+        ['Extended key usage', cert.extendedKeyUsage.join(', ')],
+        ['SHA-256 fingerprint', cert.fingerprint256],
+    ];
+    return lines
+        .filter(([, value]) => value !== '')
+        .map(([label, value]) => `${label}: ${String(value)}`)
+        .join('\n');
+}
+
+function formatRecords(records: CertificateRecord[]): string {
+    return records
+        .map(({ name, status, type, notAfter, serial }) =>
+            [name, status, type ?? '-', notAfter.toISOString(), serial].join(
+                '\t',
+            ),
+        )
+        .join('\n');
+}
+
+async function withCaPassword<T>(
+    prompt: PasswordPrompt,
+    operation: (caPassword?: string) => Promise<T>,
+): Promise<T> {
+    try {
+        return await operation();
+    } catch (error) {
+        if (!(error instanceof PrivateKeyIsEncryptedError)) throw error;
+        return await operation(await prompt.ask('CA password: '));
+    }
+}
+
+async function command(
+    easyrsa: EasyRSA,
+    [name, ...args]: string[],
+    flags: Flags,
+    prompt: PasswordPrompt,
+): Promise<[unknown, string]> {
+    const target = () => {
+        if (args.length !== 1) throw new UsageError(`Usage: ${name} <name>`);
+        return args[0];
+    };
+
+    switch (name) {
+        case 'init':
+            if (!flags.force && existsSync(join(easyrsa.getPKIDir(), 'ca.crt')))
+                throw new CaAlreadyExistsError(
+                    'PKI already has a CA, use --force to replace it',
+                );
+            await easyrsa.initPki({ force: !flags.soft });
+            return [
+                { pki: easyrsa.getPKIDir() },
+                `PKI initialized at ${easyrsa.getPKIDir()}`,
+            ];
+        case 'build-ca': {
+            const password = flags.nopass
+                ? undefined
+                : await prompt.askNew('New CA password: ');
+            await easyrsa.buildCa({ commonName: flags.cn, password });
+            const ca = await easyrsa.getCaCertificate();
+            return [ca, `CA created: ${ca.subject}`];
+        }
+        case 'server':
+        case 'client': {
+            const certName = target();
+            const password = flags.pass
+                ? await prompt.askNew('New key password: ')
+                : undefined;
+            const options = {
+                name: certName,
+                commonName: flags.cn,
+                password,
+                subjectAltNames: flags.san?.map(parseSubjectAltName),
+            };
+            await withCaPassword(prompt, (caPassword) =>
+                name === 'server'
+                    ? easyrsa.createServer({ ...options, caPassword })
+                    : easyrsa.createClient({ ...options, caPassword }),
+            );
+            const cert = await easyrsa.getCertificate(certName);
+            return [cert, `Certificate '${certName}' created`];
+        }
+        case 'revoke': {
+            const certName = target();
+            const reason = (flags.reason ?? 'unspecified') as RevokeReason;
+            await withCaPassword(prompt, (caPassword) =>
+                easyrsa.revoke({ name: certName, reason, caPassword }),
+            );
+            return [
+                { name: certName, reason },
+                `Certificate '${certName}' revoked`,
+            ];
+        }
+        case 'renew': {
+            const certName = target();
+            await withCaPassword(prompt, (caPassword) =>
+                easyrsa.renew({ name: certName, caPassword }),
+            );
+            const cert = await easyrsa.getCertificate(certName);
+            return [cert, `Certificate '${certName}' renewed`];
+        }
+        case 'crl': {
+            await withCaPassword(prompt, (caPassword) =>
+                easyrsa.genCrl(caPassword),
+            );
+            const path = `${easyrsa.getPKIDir()}/crl.pem`;
+            return [{ path }, `CRL generated at ${path}`];
+        }
+        case 'list': {
+            const records = await easyrsa.listCertificates({
+                status: parseStatuses(list(flags.status)),
+                type: parseTypes(list(flags.type)),
+                name: flags.name,
+            });
+            return [records, formatRecords(records)];
+        }
+        case 'show': {
+            const cert = flags.ca
+                ? await easyrsa.getCaCertificate()
+                : await easyrsa.getCertificate(target());
+            return [cert, formatCertificate(cert)];
+        }
+        default:
+            throw new UsageError(
+                name ? `Unknown command: ${name}` : 'Command is required',
+            );
+    }
+}
+
+export async function run(
+    argv: string[],
+    io: CliIO = process,
+): Promise<number> {
+    let json = false;
+    const prompt = new PasswordPrompt(io);
+
+    try {
+        const parsed = parseArgs({
+            args: argv,
+            options,
+            allowPositionals: true,
+        });
+        const flags = parsed.values;
+        json = Boolean(flags.json);
+
+        if (flags.help) {
+            io.stdout.write(usage);
+            return 0;
+        }
+
+        const easyrsa = new EasyRSA(await readConfig(flags));
+        const [result, text] = await command(
+            easyrsa,
+            parsed.positionals,
+            flags,
+            prompt,
+        );
+
+        const output = json ? JSON.stringify(result, null, 2) : text;
+        if (output) io.stdout.write(`${output}\n`);
+        return 0;
+    } catch (error) {
+        const { name, message } =
+            error instanceof Error ? error : new Error(String(error));
+        const usageError =
+            error instanceof UsageError ||
+            (error as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS');
+
+        if (json) {
+            io.stderr.write(
+                `${JSON.stringify({ error: { name, message } })}\n`,
+            );
+        } else {
+            io.stderr.write(`${name}: ${message || 'failed'}\n`);
+            if (usageError) io.stderr.write(`\n${usage}`);
+        }
+        return usageError ? 2 : 1;
+    } finally {
+        prompt.close();
+    }
+}
+
+if (require.main === module) {
+    void run(process.argv.slice(2)).then((code) => {
+        process.exitCode = code;
+    });
+}
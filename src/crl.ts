@@ -0,0 +1,113 @@
+import { Tlv, decodeOid, readTlv } from './certificate';
+import { parseAsn1Time } from './database';
+import type { RevokeReason } from './index';
+import { extractPem } from './utils';
+
+export interface RevokedCertificate {
+    serial: string;
+    revokedAt: Date;
+    reason?: RevokeReason;
+}
+
+export interface CrlInfo {
+    pem: string;
+    der: Buffer;
+    thisUpdate: Date;
+    nextUpdate?: Date;
+    revoked: RevokedCertificate[];
+}
+
+// CRLReason codes, 7 is not used
+const CrlReason: (RevokeReason | undefined)[] = [
+    'unspecified',
+    'keyCompromise',
+    'CACompromise',
+    'affiliationChanged',
+    'superseded',
+    'cessationOfOperation',
+    'certificateHold',
+];
+
+const reasonCodeOid = '2.5.29.21';
+
+function children(der: Buffer, { start, end }: Tlv): Tlv[] {
+    const items: Tlv[] = [];
+    for (let offset = start; offset < end; ) {
+        const item = readTlv(der, offset);
+        items.push(item);
+        offset = item.end;
+    }
+    return items;
+}
+
+// Serials are printed like X509Certificate.serialNumber
+function serial(der: Buffer, { start, end }: Tlv): string {
+    let value = der.subarray(start, end);
+    while (value.length > 1 && value[0] === 0) value = value.subarray(1);
+    return value.toString('hex').toUpperCase();
+}
+
+function time(der: Buffer, tlv: Tlv): Date {
+    if (tlv.tag !== 0x17 && tlv.tag !== 0x18) throw new Error('CRL not valid');
+    return parseAsn1Time(der.subarray(tlv.start, tlv.end).toString('latin1'));
+}
+
+// Extensions: SEQUENCE OF { extnID, critical OPTIONAL, OCTET STRING }
+function extensions(der: Buffer, tlv?: Tlv): Map<string, Tlv> {
+    const values = new Map<string, Tlv>();
+    for (const extension of tlv ? children(der, tlv) : []) {
+        const [oid, ...rest] = children(der, extension);
+        const value = rest[rest.length - 1];
+        values.set(
+            decodeOid(der.subarray(oid.start, oid.end)),
+            readTlv(der, value.start),
+        );
+    }
+    return values;
+}
+
+export function parseCrl(content: string): CrlInfo {
+    const pem = extractPem(content);
+    const match =
+        /-----BEGIN X509 CRL-----([\s\S]+?)-----END X509 CRL-----/.exec(pem);
+    if (!match) throw new Error('CRL not valid');
+    const der = Buffer.from(match[1].replace(/\s+/g, ''), 'base64');
+
+    try {
+        // CertificateList: tbsCertList, signatureAlgorithm, signature
+        const tbs = readTlv(der, readTlv(der, 0).start);
+        const fields = children(der, tbs);
+
+        // The version is only present in v2 CRLs
+        if (fields[0]?.tag === 0x02) fields.shift();
+        const [, , thisUpdate, ...rest] = fields;
+
+        const info: CrlInfo = {
+            pem,
+            der,
+            thisUpdate: time(der, thisUpdate),
+            revoked: [],
+        };
+
+        if (rest[0]?.tag === 0x17 || rest[0]?.tag === 0x18)
+            info.nextUpdate = time(der, rest.shift() as Tlv);
+
+        if (rest[0]?.tag === 0x30) {
+            for (const entry of children(der, rest.shift() as Tlv)) {
+                const [number, date, entryExtensions] = children(der, entry);
+                const reason = extensions(der, entryExtensions).get(
+                    reasonCodeOid,
+                );
+                info.revoked.push({
+                    serial: serial(der, number),
+                    revokedAt: time(der, date),
+                    reason: reason && CrlReason[der[reason.start]],
+                });
+            }
+        }
+
+        return info;
+    } catch {
+        throw new Error('CRL not valid');
+    }
+}
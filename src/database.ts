@@ -0,0 +1,204 @@
+import { X509Certificate } from 'node:crypto';
+import { readFile, readdir } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import type { RevokeReason } from './index';
+
+export const CertificateStatus = ['valid', 'revoked', 'expired'] as const;
+export type CertificateStatus = (typeof CertificateStatus)[number];
+
+export const CertificateType = [
+    'client',
+    'server',
+    'serverClient',
+    'ocsp',
+    'ca',
+] as const;
+export type CertificateType = (typeof CertificateType)[number];
+
+const isStatus = (value: string): value is CertificateStatus =>
+    (CertificateStatus as readonly string[]).includes(value);
+const isType = (value: string): value is CertificateType =>
+    (CertificateType as readonly string[]).includes(value);
+
+// Checks the statuses of a filter, a single one is taken as a list
+export function parseStatuses(
+    values?: string | string[],
+): CertificateStatus[] | undefined {
+    const list = typeof values === 'string' ? [values] : values;
+    if (list && !list.every(isStatus)) throw new Error('Status is not valid');
+    return list;
+}
+
+export function parseTypes(
+    values?: string | string[],
+): CertificateType[] | undefined {
+    const list = typeof values === 'string' ? [values] : values;
+    if (list && !list.every(isType)) throw new Error('Type is not valid');
+    return list;
+}
+
+export interface IndexEntry {
+    status: CertificateStatus;
+    notAfter: Date;
+    revokedAt?: Date;
+    revokeReason?: RevokeReason;
+    serial: string;
+    subject: string;
+}
+
+export interface CertificateRecord {
+    name: string;
+    serial: string;
+    status: CertificateStatus;
+    type?: CertificateType;
+    notAfter: Date;
+    revokedAt?: Date;
+    revokeReason?: RevokeReason;
+    subject: string;
+}
+
+interface CertificateFile {
+    name?: string;
+    type?: CertificateType;
+}
+
+const serverAuth = '1.3.6.1.5.5.7.3.1';
+const clientAuth = '1.3.6.1.5.5.7.3.2';
+const ocspSigning = '1.3.6.1.5.5.7.3.9';
+
+// OpenSSL writes UTCTime (YYMMDDHHMMSSZ) or GeneralizedTime (YYYYMMDDHHMMSSZ)
+export function parseAsn1Time(value: string): Date {
+    const match = /^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/.exec(
+        value,
+    );
+    if (!match) throw new Error(`Date not valid: ${value}`);
+
+    const [, y, month, day, hour, minute, second] = match;
+    let year = Number(y);
+    if (y.length === 2) year += year < 50 ? 2000 : 1900;
+
+    return new Date(
+        Date.UTC(
+            year,
+            Number(month) - 1,
+            Number(day),
+            Number(hour),
+            Number(minute),
+            Number(second),
+        ),
+    );
+}
+
+export function parseIndex(content: string, now = new Date()): IndexEntry[] {
+    return content
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => {
+            const [flag, expires, revocation, serial, , subject] =
+                line.split('\t');
+            const notAfter = parseAsn1Time(expires);
+            const entry: IndexEntry = {
+                status:
+                    flag === 'R'
+                        ? 'revoked'
+                        : flag === 'E' || notAfter <= now
+                          ? 'expired'
+                          : 'valid',
+                notAfter,
+                serial,
+                subject,
+            };
+
+            if (flag === 'R' && revocation) {
+                const [date, reason] = revocation.split(',');
+                entry.revokedAt = parseAsn1Time(date);
+                if (reason) entry.revokeReason = reason as RevokeReason;
+            }
+
+            return entry;
+        });
+}
+
+export function certificateType(
+    cert: X509Certificate,
+): CertificateType | undefined {
+    if (cert.ca) return 'ca';
+    const usages = cert.keyUsage ?? [];
+    const server = usages.includes(serverAuth);
+    const client = usages.includes(clientAuth);
+    if (server && client) return 'serverClient';
+    if (server) return 'server';
+    if (client) return 'client';
+    if (usages.includes(ocspSigning)) return 'ocsp';
+    return undefined;
+}
+
+async function listFiles(dir: string, extension: string): Promise<string[]> {
+    try {
+        const files = await readdir(dir);
+        return files
+            .filter((file) => extname(file) === extension)
+            .map((file) => join(dir, file));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+}
+
+// Certificates are looked up by serial: names are only known for the files
+// under issued/ and renewed/issued/, revoked certificates keep just the serial.
+async function readCertificateFiles(
+    pki: string,
+): Promise<Map<string, CertificateFile>> {
+    const certificates = new Map<string, CertificateFile>();
+    const sources: [string, string, boolean][] = [
+        [join(pki, 'certs_by_serial'), '.pem', false],
+        [join(pki, 'revoked', 'certs_by_serial'), '.crt', false],
+        [join(pki, 'renewed', 'issued'), '.crt', true],
+        [join(pki, 'issued'), '.crt', true],
+    ];
+
+    for (const [dir, extension, named] of sources) {
+        for (const file of await listFiles(dir, extension)) {
+            let cert: X509Certificate;
+            try {
+                cert = new X509Certificate(await readFile(file));
+            } catch {
+                continue;
+            }
+            const known = certificates.get(cert.serialNumber);
+            certificates.set(cert.serialNumber, {
+                name: named ? basename(file, extension) : known?.name,
+                type: certificateType(cert),
+            });
+        }
+    }
+
+    return certificates;
+}
+
+function commonName(subject: string): string {
+    const match = /\/CN=([^/]*)/.exec(subject);
+    return match ? match[1] : subject;
+}
+
+export async function readDatabase(pki: string): Promise<CertificateRecord[]> {
+    const entries = parseIndex(
+        await readFile(join(pki, 'index.txt'), { encoding: 'utf8' }),
+    );
+    const certificates = await readCertificateFiles(pki);
+
+    return entries.map((entry) => {
+        const file = certificates.get(entry.serial);
+        return {
+            name: file?.name ?? commonName(entry.subject),
+            serial: entry.serial,
+            status: entry.status,
+            type: file?.type,
+            notAfter: entry.notAfter,
+            revokedAt: entry.revokedAt,
+            revokeReason: entry.revokeReason,
+            subject: entry.subject,
+        };
+    });
+}
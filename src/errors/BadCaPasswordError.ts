@@ -1,6 +1,8 @@
-export class BadCaPasswordError extends Error {
-    constructor(message?: string) {
-        super(message);
+import { EasyRSAError, EasyRSAErrorDetails } from './EasyRSAError';
+
+export class BadCaPasswordError extends EasyRSAError {
+    constructor(message?: string, details?: EasyRSAErrorDetails) {
+        super(message, details);
         this.name = 'BadCaPasswordError';
     }
 }
@@ -1,6 +1,8 @@
-export class CaAlreadyExistsError extends Error {
-    constructor(message?: string) {
-        super(message);
+import { EasyRSAError, EasyRSAErrorDetails } from './EasyRSAError';
+
+export class CaAlreadyExistsError extends EasyRSAError {
+    constructor(message?: string, details?: EasyRSAErrorDetails) {
+        super(message, details);
         this.name = 'CaAlreadyExistsError';
     }
 }
@@ -1,6 +1,8 @@
-export class CaNotFoundError extends Error {
-    constructor(message?: string) {
-        super(message);
+import { EasyRSAError, EasyRSAErrorDetails } from './EasyRSAError';
+
+export class CaNotFoundError extends EasyRSAError {
+    constructor(message?: string, details?: EasyRSAErrorDetails) {
+        super(message, details);
         this.name = 'CaNotFoundError';
     }
 }
@@ -1,6 +1,8 @@
-export class CertificateAlreadyExistsError extends Error {
-    constructor(message?: string) {
-        super(message);
+import { EasyRSAError, EasyRSAErrorDetails } from './EasyRSAError';
+
+export class CertificateAlreadyExistsError extends EasyRSAError {
+    constructor(message?: string, details?: EasyRSAErrorDetails) {
+        super(message, details);
         this.name = 'CertificateAlreadyExistsError';
     }
 }
@@ -0,0 +1,25 @@
+export interface EasyRSAErrorDetails {
+    command?: string;
+    exitCode?: number | null;
+    stdout?: string;
+    stderr?: string;
+}
+
+export class EasyRSAError extends Error {
+    command?: string;
+    exitCode?: number | null;
+    stdout?: string;
+    stderr?: string;
+
+    constructor(
+        message?: string,
+        { command, exitCode, stdout, stderr }: EasyRSAErrorDetails = {},
+    ) {
+        super(message);
+        this.name = 'EasyRSAError';
+        this.command = command;
+        this.exitCode = exitCode;
+        this.stdout = stdout;
+        this.stderr = stderr;
+    }
+}
@@ -0,0 +1,8 @@
+import { EasyRSAError, EasyRSAErrorDetails } from './EasyRSAError';
+
+export class InvalidBackupError extends EasyRSAError {
+    constructor(message?: string, details?: EasyRSAErrorDetails) {
+        super(message, details);
+        this.name = 'InvalidBackupError';
+    }
+}
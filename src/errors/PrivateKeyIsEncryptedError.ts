@@ -1,6 +1,8 @@
-export class PrivateKeyIsEncryptedError extends Error {
-    constructor(message?: string) {
-        super(message);
+import { EasyRSAError, EasyRSAErrorDetails } from './EasyRSAError';
+
+export class PrivateKeyIsEncryptedError extends EasyRSAError {
+    constructor(message?: string, details?: EasyRSAErrorDetails) {
+        super(message, details);
         this.name = 'PrivateKeyIsEncryptedError';
     }
 }
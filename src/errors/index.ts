@@ -1,7 +1,17 @@
+export * from './EasyRSAError';
 export * from './PkiDirNotFoundError';
 export * from './CaAlreadyExistsError';
 export * from './CaNotFoundError';
 export * from './PrivateKeyIsEncryptedError';
 export * from './BadCaPasswordError';
+export * from './BadKeyPasswordError';
 export * from './CertificateAlreadyExistsError';
 export * from './CertificateNotFoundError';
+export * from './RequestNotFoundError';
+export * from './InvalidNameError';
+export * from './UnsupportedAlgorithmError';
+export * from './LockTimeoutError';
+export * from './OperationAbortedError';
+export * from './OperationTimeoutError';
+export * from './CrlNotFoundError';
+export * from './InvalidBackupError';
@@ -0,0 +1,183 @@
+import { spawn } from 'node:child_process';
+import { dirname, join } from 'node:path';
+
+export interface ExecuteOptions {
+    env: NodeJS.ProcessEnv;
+    signal?: AbortSignal;
+    onStderr?: (data: string) => void;
+}
+
+export interface ExecuteResult {
+    code: number | null;
+    stdout: string;
+    stderr: string;
+}
+
+export interface Executor {
+    execute(args: string[], options: ExecuteOptions): Promise<ExecuteResult>;
+}
+
+export interface LocalExecutorOptions {
+    command?: string;
+    prefix?: string[];
+    cwd?: string;
+}
+
+export const bundledEasyrsa = join(__dirname, '..', 'easyrsa', 'easyrsa');
+
+// The children run in their own process group, so a SIGINT or SIGTERM sent
+// to this process does not reach them. The groups still running are killed
+// when this process exits or is stopped by one of those signals.
+const groups = new Set<number>();
+
+function killGroups() {
+    for (const pid of groups) {
+        try {
+            process.kill(-pid, 'SIGTERM');
+        } catch {
+            // The process already exited
+        }
+    }
+}
+
+function onSignal(signal: NodeJS.Signals) {
+    // Other listeners decide whether to exit, the groups are killed on exit
+    if (process.listenerCount(signal) > 1) return;
+    killGroups();
+    for (const pid of groups) untrackGroup(pid);
+    process.kill(process.pid, signal);
+}
+
+function trackGroup(pid: number) {
+    if (!groups.size) {
+        process.on('exit', killGroups);
+        process.on('SIGINT', onSignal);
+        process.on('SIGTERM', onSignal);
+    }
+    groups.add(pid);
+}
+
+function untrackGroup(pid: number) {
+    if (!groups.delete(pid) || groups.size) return;
+    process.removeListener('exit', killGroups);
+    process.removeListener('SIGINT', onSignal);
+    process.removeListener('SIGTERM', onSignal);
+}
+
+// Runs easyrsa as a child process, by default the copy bundled with the
+// package. A prefix runs it through another command (sudo, ssh, ...).
+export class LocalExecutor implements Executor {
+    protected command: string;
+    protected prefix: string[];
+    protected cwd?: string;
+
+    constructor({ command, prefix = [], cwd }: LocalExecutorOptions = {}) {
+        this.command = command ?? bundledEasyrsa;
+        this.prefix = prefix;
+        this.cwd = cwd ?? (command ? undefined : dirname(bundledEasyrsa));
+    }
+
+    execute(args: string[], options: ExecuteOptions): Promise<ExecuteResult> {
+        return this.run([...this.prefix, this.command, ...args], options);
+    }
+
+    protected run(
+        [file, ...fileArgs]: string[],
+        { env, signal, onStderr }: ExecuteOptions,
+    ): Promise<ExecuteResult> {
+        return new Promise((res, rej) => {
+            // The process group is killed on abort so openssl stops as well
+            const child = spawn(file, fileArgs, {
+                cwd: this.cwd,
+                env: { ...process.env, ...env },
+                detached: true,
+            });
+            if (child.pid) trackGroup(child.pid);
+            const kill = (sig: NodeJS.Signals) => {
+                try {
+                    process.kill(-(child.pid as number), sig);
+                } catch {
+                    // The process already exited
+                }
+            };
+            let forceKill: NodeJS.Timeout | undefined;
+            const onAbort = () => {
+                kill('SIGTERM');
+                forceKill = setTimeout(() => kill('SIGKILL'), 2000);
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            if (signal?.aborted) onAbort();
+
+            let stdout = '';
+            let stderr = '';
+
+            child.stdout.setEncoding('utf8');
+            child.stdout.on('data', (data: string) => {
+                stdout += data;
+            });
+
+            child.stderr.setEncoding('utf8');
+            child.stderr.on('data', (data: string) => {
+                stderr += data;
+                onStderr?.(data);
+            });
+
+            child.on('error', (error) => {
+                signal?.removeEventListener('abort', onAbort);
+                rej(error);
+            });
+
+            child.on('close', (code) => {
+                if (child.pid) untrackGroup(child.pid);
+                signal?.removeEventListener('abort', onAbort);
+                clearTimeout(forceKill);
+                res({ code, stdout, stderr });
+            });
+        });
+    }
+}
+
+export interface DockerExecutorOptions {
+    container: string;
+    command?: string;
+    docker?: string;
+    user?: string;
+}
+
+// Runs easyrsa inside a running container with `docker exec`. The variables
+// are forwarded by name, so their values are not part of the command line.
+// Aborting stops the docker client, not the process inside the container.
+export class DockerExecutor extends LocalExecutor {
+    private container: string;
+    private user?: string;
+
+    constructor({
+        container,
+        command = 'easyrsa',
+        docker = 'docker',
+        user,
+    }: DockerExecutorOptions) {
+        if (!container) throw new Error('Container not valid');
+        super({ command, prefix: [docker] });
+        this.container = container;
+        this.user = user;
+    }
+
+    execute(args: string[], options: ExecuteOptions): Promise<ExecuteResult> {
+        const { env } = options;
+        return this.run(
+            [
+                ...this.prefix,
+                'exec',
+                ...(this.user ? ['--user', this.user] : []),
+                ...Object.keys(env)
+                    .filter((name) => env[name] !== undefined)
+                    .flatMap((name) => ['--env', name]),
+                this.container,
+                this.command,
+                ...args,
+            ],
+            options,
+        );
+    }
+}
@@ -0,0 +1,72 @@
+import { EventEmitter } from 'node:events';
+import {
+    IncomingMessage,
+    RequestListener,
+    Server,
+    createServer,
+} from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export class HttpError extends Error {
+    constructor(
+        public status: number,
+        message: string,
+        name = 'HttpError',
+    ) {
+        super(message);
+        this.name = name;
+    }
+}
+
+export async function readBody(
+    request: IncomingMessage,
+    limit: number,
+): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of request) {
+        size += (chunk as Buffer).length;
+        if (size > limit) throw new HttpError(413, 'Body too large');
+        chunks.push(chunk as Buffer);
+    }
+
+    return Buffer.concat(chunks);
+}
+
+// `handle` can be mounted on an existing server, or `listen` starts one
+export abstract class HttpService extends EventEmitter {
+    private server?: Server;
+
+    abstract handle: RequestListener;
+
+    get address(): AddressInfo | undefined {
+        const address = this.server?.address();
+        return address && typeof address === 'object' ? address : undefined;
+    }
+
+    listen(port = 0, host = '127.0.0.1'): Promise<AddressInfo> {
+        if (this.server) throw new Error('Server is already listening');
+
+        const server = createServer(this.handle);
+        this.server = server;
+        return new Promise((res, rej) => {
+            server.once('error', (error) => {
+                this.server = undefined;
+                rej(error);
+            });
+            server.listen(port, host, () => res(this.address as AddressInfo));
+        });
+    }
+
+    close(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        if (!server) return Promise.resolve();
+
+        return new Promise((res, rej) => {
+            server.close((error) => (error ? rej(error) : res()));
+            server.closeIdleConnections();
+        });
+    }
+}
@@ -1,17 +1,124 @@
-import path, { isAbsolute, join } from 'node:path';
-import { readFile } from 'node:fs';
-import { execFile, spawn } from 'node:child_process';
+import path, { dirname, isAbsolute, join } from 'node:path';
+import { existsSync, readFile } from 'node:fs';
+import {
+    chmod,
+    copyFile,
+    mkdir,
+    mkdtemp,
+    readFile as readFileAsync,
+    readdir,
+    rename,
+    rm,
+    writeFile,
+} from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { X509Certificate } from 'node:crypto';
 import { defaults, pick } from 'lodash';
-import { escapeShell } from './utils';
+import {
+    SubjectAltName,
+    defaultServerSubjectAltName,
+    errorMessage,
+    extractPem,
+    formatSubjectAltNames,
+    globToRegExp,
+    redact,
+    splitPem,
+} from './utils';
 import {
     BadCaPasswordError,
+    BadKeyPasswordError,
     CaAlreadyExistsError,
     CaNotFoundError,
     CertificateAlreadyExistsError,
     CertificateNotFoundError,
+    CrlNotFoundError,
+    EasyRSAError,
+    EasyRSAErrorDetails,
+    InvalidNameError,
+    OperationAbortedError,
+    OperationTimeoutError,
     PkiDirNotFoundError,
     PrivateKeyIsEncryptedError,
+    RequestNotFoundError,
+    UnsupportedAlgorithmError,
 } from './errors';
+import {
+    CertificateRecord,
+    CertificateStatus,
+    CertificateType,
+    certificateType,
+    parseStatuses,
+    parseTypes,
+    readDatabase,
+} from './database';
+
+import {
+    CertificateInfo,
+    parseCertificate,
+    parseSubject,
+    requestPublicKey,
+} from './certificate';
+import { CrlInfo, parseCrl } from './crl';
+import {
+    CertificatePurpose,
+    VerifyOptions,
+    VerifyResult,
+    checkChain,
+    checkKeyPair,
+    checkPurpose,
+} from './verify';
+import { BackupManifest, checkCa, createBackup, readBackup } from './backup';
+import { OvpnProfileOptions, buildOvpnProfile } from './openvpn';
+import { acquireLock } from './lock';
+import { Executor, LocalExecutor } from './executor';
+import {
+    OperationOptions,
+    abortError,
+    runOperation,
+    throwIfAborted,
+    untilAborted,
+} from './abort';
+
+export * from './errors';
+export { SubjectAltName, SubjectAltNameType } from './utils';
+export { OperationOptions } from './abort';
+export {
+    DockerExecutor,
+    DockerExecutorOptions,
+    ExecuteOptions,
+    ExecuteResult,
+    Executor,
+    LocalExecutor,
+    LocalExecutorOptions,
+} from './executor';
+export { CertificateInfo, KeyUsage } from './certificate';
+export { CrlInfo, RevokedCertificate } from './crl';
+export { BackupFile, BackupManifest } from './backup';
+export { CertificatePurpose, VerifyOptions, VerifyResult } from './verify';
+export {
+    OvpnProfileOptions,
+    OvpnRemote,
+    OvpnProtocol,
+    TlsKeyMode,
+} from './openvpn';
+export {
+    RenewalScheduler,
+    RenewalSchedulerOptions,
+    RenewalResult,
+    CaPasswordProvider,
+} from './scheduler';
+export {
+    Authenticate,
+    ManagementServer,
+    ManagementServerOptions,
+    bearerAuth,
+} from './server';
+export { OcspResponder, OcspResponderOptions } from './ocsp';
+export {
+    CertificateRecord,
+    CertificateStatus,
+    CertificateType,
+} from './database';
 
 export const Digest = [
     'md5',
@@ -23,7 +130,7 @@ export const Digest = [
 ] as const;
 export type Digest = (typeof Digest)[number];
 
-export const Curve = [
+export const EcCurve = [
     'secp112r1',
     'secp112r2',
     'secp128r1',
@@ -107,35 +214,108 @@ export const Curve = [
     'brainpoolP512t1',
     'SM2',
 ] as const;
+export type EcCurve = (typeof EcCurve)[number];
+
+export const EdCurve = ['ed25519', 'ed448'] as const;
+export type EdCurve = (typeof EdCurve)[number];
+
+export const Curve = [...EcCurve, ...EdCurve] as const;
 export type Curve = (typeof Curve)[number];
 
-export const Algorithm = ['rsa', 'ec'] as const;
+export const Algorithm = ['rsa', 'ec', 'ed'] as const;
 
 export type Algorithm = (typeof Algorithm)[number];
 
+// Curves are only used by ec and ed keys, key sizes only by rsa keys
+const AlgorithmCurves: Record<Algorithm, readonly Curve[]> = {
+    rsa: [],
+    ec: EcCurve,
+    ed: EdCurve,
+};
+
+const DefaultCurve: Partial<Record<Algorithm, Curve>> = {
+    ec: 'sect571r1',
+    ed: 'ed25519',
+};
+
+const DefaultKeySize = 2048;
+
+export const DnMode = ['cn_only', 'org'] as const;
+
+export type DnMode = (typeof DnMode)[number];
+
 export interface EasyRSAArgs {
     pki: string;
     days: number;
     certDays: number;
+    crlDays: number;
     digest: Digest;
     algo: Algorithm;
-    keySize: number;
-    curve: Curve;
+    keySize?: number;
+    curve?: Curve;
+    dnMode: DnMode;
+    expiryWindow: number;
+    lockTimeout: number;
+    executor: Executor;
+    genCrlOnRevoke: boolean;
+}
+
+export interface Subject {
+    country?: string;
+    state?: string;
+    city?: string;
+    organization?: string;
+    organizationalUnit?: string;
+    email?: string;
 }
 
-export interface CertificateOptions {
+export interface CertificateOptions extends OperationOptions {
     commonName?: string;
+    subject?: Subject;
     password?: string;
     caPassword?: string;
 }
 
-export interface CAOptions {
+export interface CAOptions extends OperationOptions {
     commonName?: string;
+    subject?: Subject;
     password?: string;
 }
 
-export interface CreateCert extends CertificateOptions {
+export const RequestType = ['client', 'server', 'serverClient'] as const;
+
+export type RequestType = (typeof RequestType)[number];
+
+export interface SignRequest extends OperationOptions {
+    name: string;
+    csrPem: string;
+    type: RequestType;
+    caPassword?: string;
+}
+
+export interface SignSubCa extends OperationOptions {
+    name: string;
+    request: string;
+    caPassword?: string;
+    pathLength?: number;
+}
+
+export interface CreateSubCa extends CAOptions {
+    name: string;
+    caPassword?: string;
+    pathLength?: number;
+}
+
+export interface KeyOptions {
+    algo?: Algorithm;
+    curve?: Curve;
+    keySize?: number;
+}
+
+// The key options default to the ones of the instance
+export interface CreateCert extends CertificateOptions, KeyOptions {
     name: string;
+    subjectAltNames?: SubjectAltName[];
 }
 
 export const RevokeReason = [
@@ -150,6 +330,120 @@ export const RevokeReason = [
 
 export type RevokeReason = (typeof RevokeReason)[number];
 
+// A certificate is revoked by its name or by its serial, in hex
+export type RevokeTarget =
+    | { name: string; serial?: undefined }
+    | { serial: string; name?: undefined };
+
+export type RevokeOptions = RevokeTarget & {
+    reason: RevokeReason;
+    caPassword?: string;
+} & OperationOptions;
+
+export interface RevokeManyOptions extends OperationOptions {
+    certificates: (RevokeTarget & { reason?: RevokeReason })[];
+    // Used for the certificates without a reason
+    reason?: RevokeReason;
+    caPassword?: string;
+    genCrl?: boolean;
+}
+
+export interface RevokeResult {
+    name?: string;
+    serial?: string;
+    reason: RevokeReason;
+    revoked: boolean;
+    error?: Error;
+}
+
+export interface RevokeManyResult {
+    results: RevokeResult[];
+    crlGenerated: boolean;
+    crlError?: Error;
+}
+
+interface CommandOptions {
+    passin?: string;
+    passout?: string;
+    signal?: AbortSignal;
+    onStderr?: (data: string) => void;
+}
+
+// easyrsa renew signs the old request again, so the key and the subject of
+// the certificate stay the same
+export interface RenewOptions extends OperationOptions {
+    name: string;
+    caPassword?: string;
+    subjectAltNames?: SubjectAltName[];
+    // Days the old certificate stays valid instead of being revoked
+    gracePeriod?: number;
+}
+
+export interface RebuildOptions extends CreateCert {
+    gracePeriod?: number;
+}
+
+export interface RevokeRenewedOptions extends OperationOptions {
+    name?: string;
+    reason?: RevokeReason;
+    caPassword?: string;
+}
+
+export interface RewindRenewOptions extends OperationOptions {
+    name: string;
+    caPassword?: string;
+}
+
+export interface ExportOptions extends OperationOptions {
+    name: string;
+    password?: string;
+    keyPassword?: string;
+    includeCa?: boolean;
+}
+
+export interface ExportResult {
+    path: string;
+    data: Buffer;
+}
+
+export interface DhProgress {
+    candidates: number;
+    passed: number;
+}
+
+export interface DhOptions extends OperationOptions {
+    bits?: number;
+    force?: boolean;
+    onProgress?: (progress: DhProgress) => void;
+}
+
+export interface SetPasswordOptions extends OperationOptions {
+    oldPassword?: string;
+    newPassword?: string;
+}
+
+export interface SetKeyPasswordOptions extends SetPasswordOptions {
+    name: string;
+}
+
+export interface BackupOptions extends OperationOptions {
+    passphrase?: string;
+    path?: string;
+}
+
+export interface RestoreOptions extends OperationOptions {
+    archive: Buffer | string;
+    passphrase?: string;
+    caPassword?: string;
+    force?: boolean;
+}
+
+export interface ListCertificatesOptions {
+    status?: CertificateStatus | CertificateStatus[];
+    type?: CertificateType | CertificateType[];
+    name?: string | RegExp;
+}
+
 interface Vars extends NodeJS.ProcessEnv {
     EASYRSA_PKI: string;
     EASYRSA_KEY_SIZE?: string;
@@ -161,6 +455,12 @@ interface Vars extends NodeJS.ProcessEnv {
     EASYRSA_PRE_EXPIRY_WINDOW: string;
     EASYRSA_DIGEST: Digest;
     EASYRSA_BATCH: string;
+    EASYRSA_REQ_COUNTRY?: string;
+    EASYRSA_REQ_PROVINCE?: string;
+    EASYRSA_REQ_CITY?: string;
+    EASYRSA_REQ_ORG?: string;
+    EASYRSA_REQ_OU?: string;
+    EASYRSA_REQ_EMAIL?: string;
 }
 
 class EasyRsaVars {
@@ -174,14 +474,20 @@ class EasyRsaVars {
     EASYRSA_PRE_EXPIRY_WINDOW: string;
     EASYRSA_DIGEST: Digest;
     EASYRSA_BATCH: string;
+    EASYRSA_REQ_COUNTRY?: string;
+    EASYRSA_REQ_PROVINCE?: string;
+    EASYRSA_REQ_CITY?: string;
+    EASYRSA_REQ_ORG?: string;
+    EASYRSA_REQ_OU?: string;
+    EASYRSA_REQ_EMAIL?: string;
 
     constructor(args: EasyRSAArgs) {
         this.EASYRSA_PKI = args.pki;
         this.EASYRSA_ALGO = args.algo;
         this.EASYRSA_BATCH = '1';
-        this.EASYRSA_PRE_EXPIRY_WINDOW = '30';
+        this.EASYRSA_PRE_EXPIRY_WINDOW = args.expiryWindow.toString();
         this.EASYRSA_CA_EXPIRE = args.days.toString();
-        this.EASYRSA_CRL_DAYS = args.days.toString();
+        this.EASYRSA_CRL_DAYS = args.crlDays.toString();
         this.EASYRSA_CERT_EXPIRE = args.certDays.toString();
         this.EASYRSA_DIGEST = args.digest;
 
@@ -192,6 +498,17 @@ class EasyRsaVars {
         if (args.keySize) {
             this.EASYRSA_KEY_SIZE = args.keySize.toString();
         }
+
+        // Empty values leave the field out of the subject, otherwise easyrsa
+        // fills it with its example defaults
+        if (args.dnMode === 'org') {
+            this.EASYRSA_REQ_COUNTRY = '';
+            this.EASYRSA_REQ_PROVINCE = '';
+            this.EASYRSA_REQ_CITY = '';
+            this.EASYRSA_REQ_ORG = '';
+            this.EASYRSA_REQ_OU = '';
+            this.EASYRSA_REQ_EMAIL = '';
+        }
     }
 
     toProcessVars(): Vars {
@@ -206,31 +523,135 @@ class EasyRsaVars {
             EASYRSA_PRE_EXPIRY_WINDOW: this.EASYRSA_PRE_EXPIRY_WINDOW,
             EASYRSA_CURVE: this.EASYRSA_CURVE,
             EASYRSA_KEY_SIZE: this.EASYRSA_KEY_SIZE,
+            EASYRSA_REQ_COUNTRY: this.EASYRSA_REQ_COUNTRY,
+            EASYRSA_REQ_PROVINCE: this.EASYRSA_REQ_PROVINCE,
+            EASYRSA_REQ_CITY: this.EASYRSA_REQ_CITY,
+            EASYRSA_REQ_ORG: this.EASYRSA_REQ_ORG,
+            EASYRSA_REQ_OU: this.EASYRSA_REQ_OU,
+            EASYRSA_REQ_EMAIL: this.EASYRSA_REQ_EMAIL,
         };
     }
 }
 
+// Old certificates kept valid after a renewal, by name, with the end of their
+// grace period
+const gracePeriodsFile = join('renewed', 'grace-periods.json');
+
+function validateKey({ algo, curve, keySize }: KeyOptions) {
+    if (!algo || !Algorithm.includes(algo))
+        throw new UnsupportedAlgorithmError('Algorithm not valid');
+    if (curve !== undefined && !Curve.includes(curve))
+        throw new UnsupportedAlgorithmError('Curve not valid');
+    if (keySize !== undefined && !(Number.isInteger(keySize) && keySize >= 512))
+        throw new UnsupportedAlgorithmError('Key size not valid');
+
+    if (curve !== undefined && !AlgorithmCurves[algo].includes(curve))
+        throw new UnsupportedAlgorithmError(`Curve not valid for ${algo} keys`);
+    if (keySize !== undefined && algo !== 'rsa')
+        throw new UnsupportedAlgorithmError(
+            `Key size not valid for ${algo} keys`,
+        );
+}
+
+function validateName(name: string) {
+    if (typeof name !== 'string' || !name || /[/\\]/.test(name))
+        throw new InvalidNameError('Name is not valid');
+}
+
+function validateGracePeriod(gracePeriod?: number) {
+    if (
+        gracePeriod !== undefined &&
+        !(Number.isInteger(gracePeriod) && gracePeriod >= 0)
+    )
+        throw new Error('Grace period not valid');
+}
+
+// Accepts upper or lower case, colon separated or 0x prefixed serials
+function normalizeSerial(serial: string): string {
+    const hex =
+        typeof serial === 'string'
+            ? serial.replace(/^0x/i, '').replace(/:/g, '').toUpperCase()
+            : '';
+    if (!/^[0-9A-F]+$/.test(hex)) throw new Error('Serial is not valid');
+    return hex.replace(/^0+(?=.)/, '');
+}
+
+// Renames (or copies) the files in order and then runs the update. When a
+// step fails the files already moved are put back.
+async function moveFiles(
+    moves: [from: string, to: string, copy?: boolean][],
+    update?: () => Promise<void>,
+) {
+    const moved: typeof moves = [];
+    try {
+        for (const [from, to, copy] of moves) {
+            await (copy ? copyFile(from, to) : rename(from, to));
+            moved.push([from, to, copy]);
+        }
+        await update?.();
+    } catch (error) {
+        for (const [from, to, copy] of moved.reverse())
+            await (copy ? rm(to, { force: true }) : rename(to, from));
+        throw error;
+    }
+}
+
+function validateRevokeTarget({ name, serial }: RevokeTarget) {
+    if (serial === undefined) return validateName(name);
+    if (name !== undefined)
+        throw new Error('Name and serial cannot be used together');
+    normalizeSerial(serial);
+}
+
 export default class EasyRSA {
     easyrsaDir: string;
     options: EasyRSAArgs;
     vars: Vars;
+    private queue: Promise<unknown> = Promise.resolve();
 
     constructor(args: Partial<EasyRSAArgs> = {}) {
+        const algo = args.algo ?? 'rsa';
+        validateKey({ algo, curve: args.curve, keySize: args.keySize });
+
         if (args.digest && !Digest.includes(args.digest))
             throw new Error('Digest not valid');
 
-        if (args.curve && !Curve.includes(args.curve))
-            throw new Error('Curve not valid');
+        if (args.dnMode && !DnMode.includes(args.dnMode))
+            throw new Error('DN mode not valid');
+
+        if (
+            args.expiryWindow !== undefined &&
+            !(Number.isInteger(args.expiryWindow) && args.expiryWindow > 0)
+        )
+            throw new Error('Expiry window not valid');
+
+        if (
+            args.lockTimeout !== undefined &&
+            !(Number.isInteger(args.lockTimeout) && args.lockTimeout >= 0)
+        )
+            throw new Error('Lock timeout not valid');
+
+        if (
+            args.crlDays !== undefined &&
+            !(Number.isInteger(args.crlDays) && args.crlDays > 0)
+        )
+            throw new Error('CRL days not valid');
 
         this.easyrsaDir = path.join(__dirname, '..', 'easyrsa');
         const values: EasyRSAArgs = {
             pki: path.join(this.easyrsaDir, 'pki'),
-            algo: 'rsa',
+            algo,
             digest: 'sha256',
-            keySize: 2048,
+            keySize: algo === 'rsa' ? DefaultKeySize : undefined,
             days: 3650,
             certDays: 825,
-            curve: 'sect571r1',
+            crlDays: 180,
+            curve: DefaultCurve[algo],
+            dnMode: 'cn_only',
+            expiryWindow: 30,
+            lockTimeout: 30000,
+            executor: new LocalExecutor(),
+            genCrlOnRevoke: false,
         };
 
         let pkiPath = undefined;
@@ -249,78 +670,165 @@ export default class EasyRSA {
         this.vars = new EasyRsaVars(this.options).toProcessVars();
     }
 
-    private easyrsa(...args: string[]): Promise<string> {
-        return new Promise((res, rej) => {
-            const easyrsaBin = join(this.easyrsaDir, 'easyrsa');
-            const easyrsa = spawn(easyrsaBin, args, {
-                cwd: this.easyrsaDir,
-                shell: true,
-                env: { ...process.env, ...this.vars },
-            });
+    // Commands run one at a time per instance and hold a lock file in the PKI
+    // so other processes do not race on index.txt and serial
+    private easyrsa(
+        args: string[],
+        options: CommandOptions = {},
+    ): Promise<string> {
+        return this.withLock(() => this.execute(args, options), options.signal);
+    }
 
-            let stdout = '';
-            let stderr = '';
+    private withLock<T>(
+        operation: () => Promise<T>,
+        signal?: AbortSignal,
+    ): Promise<T> {
+        const previous = this.queue;
+        const result = (async () => {
+            // Aborting stops the wait for the previous operations
+            await untilAborted(previous, signal);
+            throwIfAborted(signal);
+            // The wait behind the operations of this instance does not count
+            const release = await acquireLock(
+                join(this.options.pki, '.lock'),
+                Date.now() + this.options.lockTimeout,
+                signal,
+            );
+            try {
+                return await operation();
+            } finally {
+                await release();
+            }
+        })();
+        this.queue = previous.then(() => result).catch(() => undefined);
+        return result;
+    }
 
-            easyrsa.stdout.setEncoding('utf8');
-            easyrsa.stdout.on('data', (data) => {
-                stdout += data;
-            });
+    private async execute(
+        args: string[],
+        { passin, passout, signal, onStderr }: CommandOptions,
+    ): Promise<string> {
+        const env: NodeJS.ProcessEnv = {
+            EASYRSA_PASSIN: undefined,
+            EASYRSA_PASSOUT: undefined,
+            ...this.vars,
+        };
 
-            easyrsa.stderr.setEncoding('utf8');
-            easyrsa.stderr.on('data', (data) => {
-                stderr += data;
-            });
+        // Passwords are read by openssl from the environment, so they
+        // never show up in the arguments of any process
+        if (passin !== undefined) {
+            env.EASYRSA_PASSIN = 'env:EASYRSA_WRAPPER_PASSIN';
+            env.EASYRSA_WRAPPER_PASSIN = passin;
+        }
+        if (passout !== undefined) {
+            env.EASYRSA_PASSOUT = 'env:EASYRSA_WRAPPER_PASSOUT';
+            env.EASYRSA_WRAPPER_PASSOUT = passout;
+        }
 
-            easyrsa.on('close', (code) => {
-                if (stdout.includes('Easy-RSA 3 usage and overview')) {
-                    return rej(new Error('Input fail'));
-                }
-                if (code) {
-                    if (
-                        stdout.includes(
-                            'Unable to create a CA as you already seem to have one set up.',
-                        )
-                    ) {
-                        return rej(new CaAlreadyExistsError());
-                    }
-                    if (
-                        stdout.includes(
-                            'EASYRSA_PKI does not exist (perhaps you need to run init-pki)?',
-                        )
-                    ) {
-                        return rej(new PkiDirNotFoundError());
-                    }
+        const { code, stdout, stderr } = await this.options.executor.execute(
+            args.filter((arg) => arg !== ''),
+            { env, signal, onStderr },
+        );
+        if (signal?.aborted) throw abortError(signal);
 
-                    if (
-                        (stderr.includes(
-                            'Could not read CA private key from',
-                        ) ||
-                            stderr.includes('Could not find CA private key')) &&
-                        stderr.includes('maybe wrong password')
-                    ) {
-                        return rej(new BadCaPasswordError());
-                    }
+        if (!code && !stdout.includes('Easy-RSA 3 usage and overview'))
+            return stdout;
 
-                    if (stdout.includes('Missing expected CA file')) {
-                        return rej(new CaNotFoundError('CA file not exists'));
-                    }
+        const details: EasyRSAErrorDetails = {
+            command: args.find((arg) => arg && !arg.startsWith('-')),
+            exitCode: code,
+            stdout: redact(stdout, [passin, passout]),
+            stderr: redact(stderr, [passin, passout]),
+        };
+        const output = stdout + '\n' + stderr;
+        const message = errorMessage(details.stdout + '\n' + details.stderr);
 
-                    if (stdout.includes('Conflicting certificate exists at')) {
-                        return rej(new CertificateAlreadyExistsError());
-                    }
-                    if (
-                        stdout.includes(
-                            'Unable to revoke as no certificate was found',
-                        ) ||
-                        stdout.includes('Missing certificate file')
-                    ) {
-                        return rej(new CertificateNotFoundError());
-                    }
-                    return rej(stderr);
-                }
-                return res(stdout);
-            });
-        });
+        if (!code) {
+            throw new EasyRSAError('Input fail', details);
+        }
+        if (
+            output.includes(
+                'Unable to create a CA as you already seem to have one set up.',
+            )
+        ) {
+            throw new CaAlreadyExistsError(message, details);
+        }
+        if (
+            output.includes(
+                'EASYRSA_PKI does not exist (perhaps you need to run init-pki)?',
+            )
+        ) {
+            throw new PkiDirNotFoundError(message, details);
+        }
+        // A wrong password can also decrypt to garbage that openssl fails to
+        // decode, without the "maybe wrong password" hint
+        if (
+            output.includes('maybe wrong password') ||
+            (passin !== undefined &&
+                output.includes('No supported data to decode'))
+        ) {
+            if (
+                output.includes('Could not read CA private key from') ||
+                output.includes('Could not find CA private key')
+            ) {
+                throw new BadCaPasswordError(message, details);
+            }
+            if (
+                output.includes('Could not read private key from') ||
+                output.includes('Could not read key from')
+            ) {
+                throw new BadKeyPasswordError(message, details);
+            }
+        }
+        if (output.includes('Missing expected CA file')) {
+            throw new CaNotFoundError('CA file not exists', details);
+        }
+        if (
+            output.includes('Conflicting certificate exists at') ||
+            output.includes('Conflicting file already exists at') ||
+            output.includes('a conflicting file exists')
+        ) {
+            throw new CertificateAlreadyExistsError(message, details);
+        }
+        if (
+            output.includes('Unable to revoke as no certificate was found') ||
+            output.includes('Unable to rebuild as no certificate was found') ||
+            output.includes('Unable to revoke as no renewed certificate') ||
+            output.includes('Missing certificate file') ||
+            output.includes('Missing User Certificate')
+        ) {
+            throw new CertificateNotFoundError(message, details);
+        }
+        if (
+            output.includes('No request found for the input') ||
+            output.includes('Missing request file')
+        ) {
+            throw new RequestNotFoundError(message, details);
+        }
+        if (
+            output.includes(
+                'The certificate request file is not in a valid X509 format',
+            )
+        ) {
+            throw new EasyRSAError('Request not valid', details);
+        }
+        if (
+            output.includes('Missing Private Key') ||
+            output.includes('Missing private key')
+        ) {
+            throw new CertificateNotFoundError(
+                'Private key not exists',
+                details,
+            );
+        }
+        if (
+            output.includes('Unknown algorithm') ||
+            output.includes('Failed to generate ecparam file') ||
+            /Edwards Curve .* not found/.test(output)
+        ) {
+            throw new UnsupportedAlgorithmError(message, details);
+        }
+        throw new EasyRSAError(message, details);
     }
 
     private isPrivateKeyEncrypted(path: string): Promise<boolean> {
@@ -336,17 +844,136 @@ export default class EasyRSA {
         });
     }
 
+    // Key options of a certificate, over the ones of the instance. Without
+    // options the variables of the instance are used.
+    private keyArgs({ algo, curve, keySize }: KeyOptions): string[] {
+        if (algo === undefined && curve === undefined && keySize === undefined)
+            return [];
+
+        algo ??= this.options.algo;
+        if (algo === this.options.algo) {
+            curve ??= this.options.curve;
+            keySize ??= this.options.keySize;
+        } else {
+            curve ??= DefaultCurve[algo];
+            keySize ??= algo === 'rsa' ? DefaultKeySize : undefined;
+        }
+        validateKey({ algo, curve, keySize });
+
+        return [
+            `--use-algo=${algo}`,
+            ...(curve ? [`--curve=${curve}`] : []),
+            ...(keySize ? [`--keysize=${keySize}`] : []),
+        ];
+    }
+
+    private subjectArgs(subject?: Subject): string[] {
+        if (this.options.dnMode !== 'org') {
+            if (subject) throw new Error('Subject requires org DN mode');
+            return [];
+        }
+
+        const {
+            country,
+            state,
+            city,
+            organization,
+            organizationalUnit,
+            email,
+        } = subject ?? {};
+
+        if (country && !/^[a-z]{2}$/i.test(country))
+            throw new Error('Country not valid');
+
+        // The fields not set are left out, the defaults of easyrsa are
+        // cleared in the variables
+        const fields: [string, string | undefined][] = [
+            ['c', country],
+            ['st', state],
+            ['city', city],
+            ['org', organization],
+            ['ou', organizationalUnit],
+            ['email', email],
+        ];
+        return [
+            '--dn-mode=org',
+            ...fields
+                .filter(([, value]) => value)
+                .map(([flag, value]) => `--req-${flag}=${value}`),
+        ];
+    }
+
+    private async readDatabase(): Promise<CertificateRecord[]> {
+        try {
+            return await readDatabase(this.options.pki);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                if (!existsSync(this.options.pki))
+                    throw new PkiDirNotFoundError();
+                throw new CaNotFoundError('CA file not exists');
+            }
+            throw error;
+        }
+    }
+
+    private async readPkiFile(
+        file: string,
+        notFound: () => Error,
+    ): Promise<string> {
+        try {
+            return await readFileAsync(join(this.options.pki, file), {
+                encoding: 'utf8',
+            });
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                if (!existsSync(this.options.pki))
+                    throw new PkiDirNotFoundError();
+                throw notFound();
+            }
+            throw error;
+        }
+    }
+
+    // Removes the files created by an aborted operation, unless it got to
+    // write its final file
+    private async removeOnAbort<T>(
+        files: string[],
+        operation: () => Promise<T>,
+        result?: string,
+    ): Promise<T> {
+        const created = files
+            .map((file) => join(this.options.pki, file))
+            .filter((file) => !existsSync(file));
+        try {
+            return await operation();
+        } catch (error) {
+            if (
+                (error instanceof OperationAbortedError ||
+                    error instanceof OperationTimeoutError) &&
+                !(result && existsSync(join(this.options.pki, result)))
+            )
+                await Promise.all(
+                    created.map((file) => rm(file, { force: true })),
+                );
+            throw error;
+        }
+    }
+
     getPKIDir() {
         return this.options.pki;
     }
 
-    initPki({ force }: { force: boolean } = { force: true }): Promise<string> {
+    initPki({
+        force = true,
+        ...options
+    }: { force?: boolean } & OperationOptions = {}): Promise<string> {
         return new Promise((res, rej) => {
             void (async () => {
                 try {
-                    const output = await this.easyrsa(
-                        'init-pki',
-                        force ? 'hard' : 'soft',
+                    const output = await runOperation(options, (signal) =>
+                        this.easyrsa(['init-pki', force ? 'hard' : 'soft'], {
+                            signal,
+                        }),
                     );
                     execFile(
                         'openvpn',
@@ -365,30 +992,62 @@ export default class EasyRSA {
         });
     }
 
-    async buildCa({ commonName, password }: CAOptions = {}): Promise<string> {
-        try {
-            const opts: string[] = [];
+    async buildCa(options: CAOptions = {}): Promise<string> {
+        return await this.runBuildCa(options, false);
+    }
+
+    private async runBuildCa(
+        { commonName, subject, password, ...options }: CAOptions,
+        subCa: boolean,
+    ): Promise<string> {
+        return await runOperation(options, async (signal) => {
+            const opts: string[] = this.subjectArgs(subject);
             const easy_args = password ? '' : 'nopass';
-            if (commonName) opts.push(`--req-cn=${escapeShell(commonName)}`);
-            if (password)
-                opts.push(
-                    `--passin=pass:${escapeShell(password)}`,
-                    `--passout=pass:${escapeShell(password)}`,
-                );
-            const result = await this.easyrsa(...opts, 'build-ca', easy_args);
+            if (commonName) opts.push(`--req-cn=${commonName}`);
+            const result = await this.removeOnAbort(
+                [join('private', 'ca.key'), join('reqs', 'ca.req'), 'ca.crt'],
+                () =>
+                    this.easyrsa(
+                        [...opts, 'build-ca', easy_args, subCa ? 'subca' : ''],
+                        { passin: password, passout: password, signal },
+                    ),
+                subCa ? join('reqs', 'ca.req') : 'ca.crt',
+            );
 
             return result;
-        } catch (error) {
-            if (error instanceof Error) throw error;
-            throw new Error('Fail to build CA');
-        }
+        });
     }
 
     async createCert(
-        type: 'client' | 'server',
-        { name, commonName, password, caPassword }: CreateCert,
+        type: 'client' | 'server' | 'ocsp',
+        {
+            name,
+            commonName,
+            subject,
+            password,
+            caPassword,
+            subjectAltNames,
+            algo,
+            curve,
+            keySize,
+            ...options
+        }: CreateCert,
     ) {
-        try {
+        validateName(name);
+        const keyOpts = this.keyArgs({ algo, curve, keySize });
+        return await runOperation(options, async (signal) => {
+            const subjectOpts = this.subjectArgs(subject);
+
+            if (!subjectAltNames && type === 'server') {
+                const defaultName = defaultServerSubjectAltName(
+                    commonName ?? name,
+                );
+                if (defaultName) subjectAltNames = [defaultName];
+            }
+            const san = subjectAltNames
+                ? formatSubjectAltNames(subjectAltNames)
+                : undefined;
+
             if (
                 !caPassword &&
                 (await this.isPrivateKeyEncrypted(
@@ -398,129 +1057,1348 @@ export default class EasyRSA {
                 throw new PrivateKeyIsEncryptedError('CA is encrypted');
             }
 
-            let opts: string[] = [];
+            let opts: string[] = [...subjectOpts, ...keyOpts];
             const easy_args = password ? '' : 'nopass';
-            if (commonName) opts.push(`--req-cn=${escapeShell(commonName)}`);
-            if (password) {
-                opts.push(`--passout=pass:${escapeShell(password)}`);
-            }
+            if (commonName) opts.push(`--req-cn=${commonName}`);
 
-            await this.easyrsa(...opts, 'gen-req', name, easy_args);
+            return await this.removeOnAbort(
+                [join('reqs', `${name}.req`), join('private', `${name}.key`)],
+                async () => {
+                    await this.easyrsa([...opts, 'gen-req', name, easy_args], {
+                        passout: password,
+                        signal,
+                    });
 
-            opts = [];
+                    opts = [];
 
-            if (caPassword)
-                opts.push(`--passin=pass:${escapeShell(caPassword)}`);
+                    if (san) opts.push(`--san=${san}`);
 
-            return await this.easyrsa(...opts, 'sign-req', type, name);
-        } catch (error) {
-            if (error instanceof Error) throw error;
-            throw new Error('Fail to create certificate');
-        }
+                    return await this.easyrsa(
+                        [...opts, 'sign-req', type, name],
+                        {
+                            passin: caPassword,
+                            signal,
+                        },
+                    );
+                },
+                join('issued', `${name}.crt`),
+            );
+        });
     }
 
-    async createServer({ name, commonName, password, caPassword }: CreateCert) {
+    async createServer({
+        name,
+        commonName,
+        subject,
+        password,
+        caPassword,
+        subjectAltNames,
+        algo,
+        curve,
+        keySize,
+        signal,
+        timeout,
+    }: CreateCert) {
         return await this.createCert('server', {
             name,
             commonName,
+            subject,
             password,
             caPassword,
+            subjectAltNames,
+            algo,
+            curve,
+            keySize,
+            signal,
+            timeout,
         });
     }
 
-    async createClient({ name, commonName, password, caPassword }: CreateCert) {
+    async createClient({
+        name,
+        commonName,
+        subject,
+        password,
+        caPassword,
+        subjectAltNames,
+        algo,
+        curve,
+        keySize,
+        signal,
+        timeout,
+    }: CreateCert) {
         return await this.createCert('client', {
             name,
             commonName,
+            subject,
+            password,
+            caPassword,
+            subjectAltNames,
+            algo,
+            curve,
+            keySize,
+            signal,
+            timeout,
+        });
+    }
+
+    // The certificate signing the responses of OcspResponder
+    async createOcspSigner({
+        name = 'ocsp',
+        commonName,
+        subject,
+        password,
+        caPassword,
+        algo,
+        curve,
+        keySize,
+        signal,
+        timeout,
+    }: Partial<Omit<CreateCert, 'subjectAltNames'>> = {}) {
+        return await this.createCert('ocsp', {
+            name,
+            commonName,
+            subject,
             password,
             caPassword,
+            algo,
+            curve,
+            keySize,
+            signal,
+            timeout,
         });
     }
 
     async revoke({
         name,
+        serial,
         reason,
         caPassword,
-    }: {
-        name: string;
-        reason: RevokeReason;
-        caPassword?: string;
-    }) {
-        try {
+        ...options
+    }: RevokeOptions) {
+        validateRevokeTarget({ name, serial } as RevokeTarget);
+        return await runOperation(options, async (signal) => {
             if (!RevokeReason.includes(reason))
                 throw new Error('Reason is not valid');
 
-            if (
-                !caPassword &&
-                (await this.isPrivateKeyEncrypted(
-                    join(this.options.pki, 'private', 'ca.key'),
-                ))
-            ) {
-                throw new PrivateKeyIsEncryptedError('CA is encrypted');
-            }
-
-            let opts = '';
+            await this.checkCaPassword(caPassword);
+            await this.revokeCertificate(
+                { name, serial } as RevokeTarget,
+                reason,
+                caPassword,
+                signal,
+            );
 
-            if (caPassword) opts = `--passin=pass:${escapeShell(caPassword)}`;
-            await this.easyrsa(opts, 'revoke', name, reason);
-        } catch (error) {
-            if (error instanceof Error) throw error;
-            throw new Error('Fail to create client');
-        }
+            if (this.options.genCrlOnRevoke)
+                await this.easyrsa(['gen-crl'], { passin: caPassword, signal });
+        });
     }
 
-    async renew({ name, commonName, password, caPassword }: CreateCert) {
-        try {
-            if (
-                !caPassword &&
-                (await this.isPrivateKeyEncrypted(
-                    join(this.options.pki, 'private', 'ca.key'),
-                ))
-            ) {
-                throw new PrivateKeyIsEncryptedError('CA is encrypted');
+    // Revokes every certificate even when some of them fail and reports the
+    // result of each one. The CRL is generated once, after the last one.
+    async revokeMany({
+        certificates,
+        reason: defaultReason = 'unspecified',
+        caPassword,
+        genCrl = this.options.genCrlOnRevoke,
+        ...options
+    }: RevokeManyOptions): Promise<RevokeManyResult> {
+        if (!Array.isArray(certificates))
+            throw new Error('Certificates not valid');
+        certificates.forEach(validateRevokeTarget);
+        const reasons = certificates.map(
+            ({ reason }) => reason ?? defaultReason,
+        );
+        if (reasons.some((reason) => !RevokeReason.includes(reason)))
+            throw new Error('Reason is not valid');
+        return await runOperation(options, async (signal) => {
+            await this.checkCaPassword(caPassword);
+
+            const results: RevokeResult[] = [];
+            for (const [index, { name, serial }] of certificates.entries()) {
+                const result: RevokeResult = {
+                    name,
+                    serial,
+                    reason: reasons[index],
+                    revoked: false,
+                };
+                try {
+                    result.name = await this.revokeCertificate(
+                        { name, serial } as RevokeTarget,
+                        result.reason,
+                        caPassword,
+                        signal,
+                    );
+                    result.revoked = true;
+                } catch (error) {
+                    result.error = error as Error;
+                }
+                results.push(result);
             }
 
-            const opts: string[] = [];
-            const easy_args = password ? '' : 'nopass';
-            if (commonName) opts.push(`--req-cn="${escapeShell(commonName)}"`);
-            if (caPassword)
-                opts.push(`--passin=pass:${escapeShell(caPassword)}`);
-            if (password) opts.push(`--passout=pass:${escapeShell(password)}`);
-            const output = await this.easyrsa(
-                ...opts,
-                'renew',
-                name,
-                easy_args,
-            );
+            const report: RevokeManyResult = { results, crlGenerated: false };
+            if (genCrl && results.some(({ revoked }) => revoked)) {
+                try {
+                    await this.easyrsa(['gen-crl'], {
+                        passin: caPassword,
+                        signal,
+                    });
+                    report.crlGenerated = true;
+                } catch (error) {
+                    report.crlError = error as Error;
+                }
+            }
 
-            await this.easyrsa(...opts, 'revoke-renewed', name);
+            return report;
+        });
+    }
 
-            return output;
-        } catch (error) {
-            if (error instanceof Error) throw error;
-            throw new Error('Fail to renew certificate');
+    private async checkCaPassword(caPassword?: string) {
+        if (
+            !caPassword &&
+            (await this.isPrivateKeyEncrypted(
+                join(this.options.pki, 'private', 'ca.key'),
+            ))
+        ) {
+            throw new PrivateKeyIsEncryptedError('CA is encrypted');
         }
     }
 
-    async genCrl(caPassword?: string): Promise<string> {
-        try {
-            if (
-                !caPassword &&
-                (await this.isPrivateKeyEncrypted(
+    private async revokeCertificate(
+        target: RevokeTarget,
+        reason: RevokeReason,
+        caPassword: string | undefined,
+        signal: AbortSignal | undefined,
+    ): Promise<string> {
+        const { name, renewed } =
+            target.serial === undefined
+                ? { name: target.name, renewed: false }
+                : await this.findBySerial(normalizeSerial(target.serial));
+
+        await this.easyrsa(
+            [renewed ? 'revoke-renewed' : 'revoke', name, reason],
+            {
+                passin: caPassword,
+                signal,
+            },
+        );
+
+        return name;
+    }
+
+    // easyrsa revokes by name, so the certificate of the serial must still be
+    // under issued/ or, once renewed, under renewed/issued/
+    private async findBySerial(
+        serial: string,
+    ): Promise<{ name: string; renewed: boolean }> {
+        const record = (await this.readDatabase()).find(
+            (cert) => normalizeSerial(cert.serial) === serial,
+        );
+        if (!record)
+            throw new CertificateNotFoundError(
+                `Certificate with serial ${serial} not exists`,
+            );
+        if (record.status === 'revoked')
+            throw new CertificateNotFoundError(
+                `Certificate with serial ${serial} is already revoked`,
+            );
+
+        const dirs: [string, boolean][] = [
+            ['issued', false],
+            [join('renewed', 'issued'), true],
+        ];
+        for (const [dir, renewed] of dirs) {
+            let cert: X509Certificate;
+            try {
+                cert = new X509Certificate(
+                    await readFileAsync(
+                        join(this.options.pki, dir, `${record.name}.crt`),
+                    ),
+                );
+            } catch {
+                continue;
+            }
+            if (normalizeSerial(cert.serialNumber) === serial)
+                return { name: record.name, renewed };
+        }
+
+        throw new CertificateNotFoundError(
+            `Certificate file of serial ${serial} not exists`,
+        );
+    }
+
+    async renew({
+        name,
+        caPassword,
+        subjectAltNames,
+        gracePeriod,
+        ...options
+    }: RenewOptions) {
+        validateName(name);
+        validateGracePeriod(gracePeriod);
+        // Callers without types could still pass them and expect a change
+        if ('commonName' in options || 'subject' in options)
+            throw new Error('Subject cannot be changed by renew, use rebuild');
+        return await runOperation(options, async (signal) => {
+            const san = subjectAltNames
+                ? formatSubjectAltNames(subjectAltNames)
+                : undefined;
+
+            await this.checkCaPassword(caPassword);
+
+            const output = await this.easyrsa(
+                [...(san ? [`--san=${san}`] : []), 'renew', name, 'nopass'],
+                { passin: caPassword, signal },
+            );
+
+            await this.keepRenewed(name, gracePeriod, caPassword, signal);
+            return output;
+        });
+    }
+
+    // Issues a new key and certificate with the same name, the old key is
+    // kept with the old certificate
+    async rebuild({
+        name,
+        commonName,
+        subject,
+        password,
+        caPassword,
+        subjectAltNames,
+        gracePeriod,
+        algo,
+        curve,
+        keySize,
+        ...options
+    }: RebuildOptions) {
+        validateName(name);
+        const keyOpts = this.keyArgs({ algo, curve, keySize });
+        validateGracePeriod(gracePeriod);
+        return await runOperation(options, (signal) =>
+            this.rebuildCert(name, {
+                commonName,
+                subject,
+                password,
+                caPassword,
+                subjectAltNames,
+                gracePeriod,
+                keyOpts,
+                signal,
+            }),
+        );
+    }
+
+    // easyrsa rebuild always uses the file name as commonName, so the old
+    // files are moved to renewed/ here and the new key and certificate are
+    // issued like a new one. The subject, alternative names and type of the
+    // old certificate are kept unless new ones are given.
+    private async rebuildCert(
+        name: string,
+        {
+            commonName,
+            subject,
+            password,
+            caPassword,
+            subjectAltNames,
+            gracePeriod,
+            keyOpts,
+            signal,
+        }: Omit<RebuildOptions, 'name' | 'algo' | 'curve' | 'keySize'> & {
+            keyOpts: string[];
+        },
+    ): Promise<string> {
+        const pki = this.options.pki;
+        const current = new X509Certificate(
+            await this.readPkiFile(
+                join('issued', `${name}.crt`),
+                () => new CertificateNotFoundError(),
+            ),
+        );
+        const type = certificateType(current);
+        if (!type || type === 'ca')
+            throw new Error('Certificate type not supported');
+
+        const { commonName: currentName, ...currentSubject } = parseSubject(
+            current.subject,
+        );
+        commonName ??= currentName;
+        if (this.options.dnMode === 'org') subject ??= currentSubject;
+        const subjectOpts = this.subjectArgs(subject);
+        subjectAltNames ??= parseCertificate(
+            current.toString(),
+        ).subjectAltNames;
+        const san = subjectAltNames.length
+            ? formatSubjectAltNames(subjectAltNames)
+            : undefined;
+
+        await this.checkCaPassword(caPassword);
+
+        const moves: [string, string][] = [
+            ['issued', 'crt'],
+            ['private', 'key'],
+            ['reqs', 'req'],
+        ].map(([dir, extension]) => [
+            join(pki, dir, `${name}.${extension}`),
+            join(pki, 'renewed', dir, `${name}.${extension}`),
+        ]);
+        await this.withLock(async () => {
+            if (moves.some(([, target]) => existsSync(target)))
+                throw new CertificateAlreadyExistsError(
+                    'Renewed certificate already exists',
+                );
+            for (const [, target] of moves)
+                await mkdir(dirname(target), { recursive: true });
+            await moveFiles(moves.filter(([file]) => existsSync(file)));
+        }, signal);
+
+        let output: string;
+        try {
+            await this.easyrsa(
+                [
+                    ...(commonName ? [`--req-cn=${commonName}`] : []),
+                    ...subjectOpts,
+                    ...keyOpts,
+                    'gen-req',
+                    name,
+                    password ? '' : 'nopass',
+                ],
+                { passout: password, signal },
+            );
+            output = await this.easyrsa(
+                [...(san ? [`--san=${san}`] : []), 'sign-req', type, name],
+                { passin: caPassword, signal },
+            );
+        } catch (error) {
+            // Not cancelled, the old files go back to their place
+            await this.withLock(async () => {
+                const moved = moves.filter(([, target]) => existsSync(target));
+                for (const [file] of moved) await rm(file, { force: true });
+                await moveFiles(moved.map(([file, target]) => [target, file]));
+            });
+            throw error;
+        }
+
+        await rm(join(pki, 'certs_by_serial', `${current.serialNumber}.pem`), {
+            force: true,
+        });
+        await this.keepRenewed(name, gracePeriod, caPassword, signal);
+        return output;
+    }
+
+    // The old certificate is kept for the grace period, or revoked now
+    private async keepRenewed(
+        name: string,
+        gracePeriod: number | undefined,
+        caPassword: string | undefined,
+        signal: AbortSignal | undefined,
+    ) {
+        if (gracePeriod) {
+            const until = new Date(Date.now() + gracePeriod * 86400000);
+            await this.withLock(
+                () =>
+                    this.updateGracePeriods((periods) => {
+                        periods[name] = until.toISOString();
+                    }),
+                signal,
+            );
+        } else {
+            await this.easyrsa(['revoke-renewed', name], {
+                passin: caPassword,
+                signal,
+            });
+        }
+    }
+
+    // Revokes the old certificates kept by a grace period once it has ended,
+    // or the one of the given name right away
+    async revokeRenewed({
+        name,
+        reason = 'unspecified',
+        caPassword,
+        ...options
+    }: RevokeRenewedOptions = {}): Promise<RevokeResult[]> {
+        if (name !== undefined) validateName(name);
+        if (!RevokeReason.includes(reason))
+            throw new Error('Reason is not valid');
+        return await runOperation(options, async (signal) => {
+            const periods = await this.readGracePeriods();
+            const names =
+                name !== undefined
+                    ? [name]
+                    : Object.keys(periods).filter(
+                          (key) => Date.parse(periods[key]) <= Date.now(),
+                      );
+            if (!names.length) return [];
+
+            await this.checkCaPassword(caPassword);
+
+            const results: RevokeResult[] = [];
+            for (const name of names) {
+                const result: RevokeResult = { name, reason, revoked: false };
+                try {
+                    await this.easyrsa(['revoke-renewed', name, reason], {
+                        passin: caPassword,
+                        signal,
+                    });
+                    result.revoked = true;
+                } catch (error) {
+                    result.error = error as Error;
+                }
+                results.push(result);
+            }
+
+            // Also forgets the certificates that were revoked by other means
+            const done = results
+                .filter(
+                    ({ revoked, error }) =>
+                        revoked || error instanceof CertificateNotFoundError,
+                )
+                .map(({ name }) => name as string);
+            await this.withLock(
+                () =>
+                    this.updateGracePeriods((periods) => {
+                        for (const name of done) delete periods[name];
+                    }),
+                signal,
+            );
+
+            if (name !== undefined && results[0].error) throw results[0].error;
+            if (this.options.genCrlOnRevoke && done.length)
+                await this.easyrsa(['gen-crl'], { passin: caPassword, signal });
+
+            return results;
+        });
+    }
+
+    // Undoes a renew or rebuild while the old certificate is still valid: the
+    // new certificate is revoked and the old one takes its place again
+    async rewindRenew({ name, caPassword, ...options }: RewindRenewOptions) {
+        validateName(name);
+        return await runOperation(options, async (signal) => {
+            const pki = this.options.pki;
+
+            const old = await this.readPkiFile(
+                join('renewed', 'issued', `${name}.crt`),
+                () =>
+                    new CertificateNotFoundError(
+                        'Renewed certificate not exists',
+                    ),
+            );
+            const current = new X509Certificate(
+                await this.readPkiFile(
+                    join('issued', `${name}.crt`),
+                    () => new CertificateNotFoundError(),
+                ),
+            );
+
+            await this.checkCaPassword(caPassword);
+
+            await this.easyrsa(['revoke', name, 'superseded'], {
+                passin: caPassword,
+                signal,
+            });
+
+            // renew keeps the key and the request, so they were revoked along
+            // with the new certificate and are copied back from there
+            const moves: [string, string, boolean?][] = [
+                [
+                    join(pki, 'renewed', 'issued', `${name}.crt`),
+                    join(pki, 'issued', `${name}.crt`),
+                ],
+            ];
+            const files: [string, string, string][] = [
+                ['private', 'private_by_serial', 'key'],
+                ['reqs', 'reqs_by_serial', 'req'],
+            ];
+            for (const [dir, bySerial, extension] of files) {
+                const target = join(pki, dir, `${name}.${extension}`);
+                const rebuilt = join(
+                    pki,
+                    'renewed',
+                    dir,
+                    `${name}.${extension}`,
+                );
+                const revoked = join(
+                    pki,
+                    'revoked',
+                    bySerial,
+                    `${current.serialNumber}.${extension}`,
+                );
+                if (existsSync(rebuilt)) moves.push([rebuilt, target]);
+                else if (existsSync(revoked))
+                    moves.push([revoked, target, true]);
+            }
+            const duplicate = join(
+                pki,
+                'certs_by_serial',
+                `${new X509Certificate(old).serialNumber}.pem`,
+            );
+
+            // Not cancelled from here, the PKI would be left without the old
+            // files. If a step fails the old certificate stays in renewed/.
+            await this.withLock(() =>
+                moveFiles(moves, async () => {
+                    await writeFile(duplicate, old);
+                    try {
+                        await this.updateGracePeriods((periods) => {
+                            delete periods[name];
+                        });
+                    } catch (error) {
+                        await rm(duplicate, { force: true });
+                        throw error;
+                    }
+                }),
+            );
+
+            if (this.options.genCrlOnRevoke)
+                await this.easyrsa(['gen-crl'], { passin: caPassword, signal });
+        });
+    }
+
+    // Old certificates still valid after a renew or rebuild
+    async listGracePeriods(): Promise<{ name: string; until: Date }[]> {
+        return Object.entries(await this.readGracePeriods()).map(
+            ([name, until]) => ({ name, until: new Date(until) }),
+        );
+    }
+
+    private async readGracePeriods(): Promise<Record<string, string>> {
+        try {
+            return JSON.parse(
+                await readFileAsync(join(this.options.pki, gracePeriodsFile), {
+                    encoding: 'utf8',
+                }),
+            ) as Record<string, string>;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+            throw error;
+        }
+    }
+
+    // Must run with the lock held
+    private async updateGracePeriods(
+        update: (periods: Record<string, string>) => void,
+    ) {
+        const periods = await this.readGracePeriods();
+        update(periods);
+
+        const file = join(this.options.pki, gracePeriodsFile);
+        if (Object.keys(periods).length) {
+            await mkdir(dirname(file), { recursive: true });
+            await writeFile(file, JSON.stringify(periods, null, 2));
+        } else {
+            await rm(file, { force: true });
+        }
+    }
+
+    // An empty or missing new password stores the key without encryption
+    async setCaPassword({
+        oldPassword,
+        newPassword,
+        ...options
+    }: SetPasswordOptions = {}): Promise<string> {
+        return await runOperation(options, async (signal) => {
+            const key = await this.readPkiFile(
+                join('private', 'ca.key'),
+                () => new CaNotFoundError('CA file not exists'),
+            );
+            if (!oldPassword && key.includes('ENCRYPTED'))
+                throw new PrivateKeyIsEncryptedError('CA is encrypted');
+
+            try {
+                return await this.setPassword(
+                    'ca',
+                    oldPassword,
+                    newPassword,
+                    signal,
+                );
+            } catch (error) {
+                if (error instanceof BadKeyPasswordError)
+                    throw new BadCaPasswordError(error.message, error);
+                throw error;
+            }
+        });
+    }
+
+    async setKeyPassword({
+        name,
+        oldPassword,
+        newPassword,
+        ...options
+    }: SetKeyPasswordOptions): Promise<string> {
+        validateName(name);
+        return await runOperation(options, async (signal) => {
+            const key = await this.readPkiFile(
+                join('private', `${name}.key`),
+                () => new CertificateNotFoundError('Private key not exists'),
+            );
+            if (!oldPassword && key.includes('ENCRYPTED'))
+                throw new PrivateKeyIsEncryptedError(
+                    'Private key is encrypted',
+                );
+
+            return await this.setPassword(
+                name,
+                oldPassword,
+                newPassword,
+                signal,
+            );
+        });
+    }
+
+    private async setPassword(
+        name: string,
+        oldPassword: string | undefined,
+        newPassword: string | undefined,
+        signal?: AbortSignal,
+    ): Promise<string> {
+        return await this.easyrsa(
+            ['set-pass', name, newPassword ? '' : 'nopass'],
+            {
+                passin: oldPassword || undefined,
+                passout: newPassword || undefined,
+                signal,
+            },
+        );
+    }
+
+    async genCrl(
+        caPassword?: string,
+        options: OperationOptions = {},
+    ): Promise<string> {
+        return await runOperation(options, async (signal) => {
+            if (
+                !caPassword &&
+                (await this.isPrivateKeyEncrypted(
                     join(this.options.pki, 'private', 'ca.key'),
                 ))
             ) {
                 throw new PrivateKeyIsEncryptedError('CA is encrypted');
             }
 
-            const opts = caPassword
-                ? `--passin=pass:${escapeShell(caPassword)}`
-                : '';
+            return await this.easyrsa(['gen-crl'], {
+                passin: caPassword,
+                signal,
+            });
+        });
+    }
 
-            return await this.easyrsa(opts, 'gen-crl');
+    async getCrl(): Promise<CrlInfo> {
+        const pem = await this.readPkiFile(
+            'crl.pem',
+            () => new CrlNotFoundError('CRL file not exists'),
+        );
+        return parseCrl(pem);
+    }
+
+    async genDh({
+        bits = 2048,
+        force = false,
+        onProgress,
+        ...options
+    }: DhOptions = {}): Promise<string> {
+        if (!Number.isInteger(bits) || bits < 512 || bits > 16384)
+            throw new Error('Bits not valid');
+
+        return await runOperation(options, async (signal) => {
+            throwIfAborted(signal);
+
+            const file = join(this.options.pki, 'dh.pem');
+            if (!force && existsSync(file))
+                return await readFileAsync(file, { encoding: 'utf8' });
+
+            // openssl prints a dot for each prime candidate and a plus for each
+            // candidate passing a primality test
+            const progress: DhProgress = { candidates: 0, passed: 0 };
+            const onStderr = (data: string) => {
+                const marks = data
+                    .split('\n')
+                    .filter((line) => /^[.+*]+$/.test(line))
+                    .join('');
+                if (!marks) return;
+                progress.candidates += marks.split('.').length - 1;
+                progress.passed += marks.split('+').length - 1;
+                onProgress?.({ ...progress });
+            };
+
+            // Generated in a scratch PKI inside the PKI without the lock, which
+            // is only held to move the result onto dh.pem
+            const dir = await mkdtemp(join(this.options.pki, 'dh-'));
+            try {
+                for (const sub of ['private', 'reqs'])
+                    await mkdir(join(dir, sub));
+                await this.execute(
+                    [`--pki-dir=${dir}`, `--keysize=${bits}`, 'gen-dh'],
+                    { signal, onStderr },
+                );
+
+                return await this.withLock(async () => {
+                    // Kept when another call created it in the meantime
+                    if (force || !existsSync(file))
+                        await rename(join(dir, 'dh.pem'), file);
+                    return await readFileAsync(file, { encoding: 'utf8' });
+                }, signal);
+            } finally {
+                await rm(dir, { recursive: true, force: true });
+            }
+        });
+    }
+
+    // Snapshot of the PKI taken while holding the lock
+    async backup({
+        passphrase,
+        path,
+        ...options
+    }: BackupOptions = {}): Promise<Buffer> {
+        return await runOperation(options, async (signal) => {
+            if (!existsSync(this.options.pki)) throw new PkiDirNotFoundError();
+
+            const archive = await this.withLock(
+                () => createBackup(this.options.pki, passphrase),
+                signal,
+            );
+            if (path) await writeFile(path, archive, { mode: 0o600 });
+
+            return archive;
+        });
+    }
+
+    // The backup is verified and unpacked next to the PKI before it replaces
+    // the current directory, which is only done with force if it has a CA
+    async restore({
+        archive,
+        passphrase,
+        caPassword,
+        force = false,
+        ...options
+    }: RestoreOptions): Promise<BackupManifest> {
+        return await runOperation(options, async (signal) => {
+            const pki = this.options.pki;
+
+            const backup = await readBackup(
+                typeof archive === 'string'
+                    ? await readFileAsync(archive)
+                    : archive,
+                passphrase,
+            );
+            checkCa(backup, caPassword);
+
+            if (!force && existsSync(join(pki, 'ca.crt')))
+                throw new CaAlreadyExistsError('PKI already has a CA');
+
+            await mkdir(pki, { recursive: true, mode: 0o700 });
+            const staging = await mkdtemp(`${pki}.restore-`);
+            const previous = `${staging}.previous`;
+            try {
+                // Archives may leave out the entries of the directories
+                for (const { path, mode, data } of backup.entries) {
+                    const target = join(staging, path);
+                    await mkdir(data ? dirname(target) : target, {
+                        recursive: true,
+                        mode: 0o700,
+                    });
+                    if (data)
+                        await writeFile(target, data, { mode: mode & 0o777 });
+                    else await chmod(target, mode & 0o777);
+                }
+                throwIfAborted(signal);
+
+                // The files are swapped one by one, so the lock file stays in
+                // the PKI while it is held
+                await this.withLock(async () => {
+                    await mkdir(previous);
+                    const moves = (files: string[], from: string, to: string) =>
+                        files
+                            .filter((file) => file !== '.lock')
+                            .map((file): [string, string] => [
+                                join(from, file),
+                                join(to, file),
+                            ]);
+                    await moveFiles([
+                        ...moves(await readdir(pki), pki, previous),
+                        ...moves(await readdir(staging), staging, pki),
+                    ]);
+                }, signal);
+            } finally {
+                await rm(staging, { recursive: true, force: true });
+                await rm(previous, { recursive: true, force: true });
+            }
+            await chmod(pki, 0o700);
+
+            return backup.manifest;
+        });
+    }
+
+    async listCertificates({
+        status,
+        type,
+        name,
+    }: ListCertificatesOptions = {}): Promise<CertificateRecord[]> {
+        const statuses = parseStatuses(status);
+        const types = parseTypes(type);
+
+        const pattern = typeof name === 'string' ? globToRegExp(name) : name;
+
+        const certificates = await this.readDatabase();
+
+        return certificates.filter(
+            (cert) =>
+                (!statuses || statuses.includes(cert.status)) &&
+                (!types || (!!cert.type && types.includes(cert.type))) &&
+                (!pattern || pattern.test(cert.name)),
+        );
+    }
+
+    async getCertificate(name: string): Promise<CertificateInfo> {
+        validateName(name);
+
+        const pem = await this.readPkiFile(
+            join('issued', `${name}.crt`),
+            () => new CertificateNotFoundError(),
+        );
+        return parseCertificate(pem);
+    }
+
+    async getCaCertificate(): Promise<CertificateInfo> {
+        const pem = await this.readPkiFile(
+            'ca.crt',
+            () => new CaNotFoundError('CA file not exists'),
+        );
+        return parseCertificate(pem);
+    }
+
+    // Accepts the name of a certificate of the PKI or any PEM certificate.
+    // Revocation is read from index.txt, and also from the CRL with checkCrl.
+    async verifyCertificate(
+        nameOrPem: string,
+        { checkCrl = false, purpose, key, keyPassword }: VerifyOptions = {},
+    ): Promise<VerifyResult> {
+        if (purpose && !CertificatePurpose.includes(purpose))
+            throw new Error('Purpose not valid');
+
+        const isPem = nameOrPem.includes('-----BEGIN CERTIFICATE-----');
+        if (!isPem) validateName(nameOrPem);
+        const pem = isPem
+            ? nameOrPem
+            : await this.readPkiFile(
+                  join('issued', `${nameOrPem}.crt`),
+                  () => new CertificateNotFoundError(),
+              );
+
+        let cert: X509Certificate;
+        let certificate: CertificateInfo;
+        try {
+            cert = new X509Certificate(pem);
+            certificate = parseCertificate(pem);
+        } catch {
+            throw new Error('Certificate not valid');
+        }
+        const chain = splitPem(
+            await this.readPkiFile(
+                'ca.crt',
+                () => new CaNotFoundError('CA file not exists'),
+            ),
+        ).map((block) => new X509Certificate(block));
+
+        const now = Date.now();
+        const result: VerifyResult = {
+            valid: false,
+            chain: checkChain(cert, chain),
+            revoked: false,
+            expired:
+                now > certificate.validTo.getTime() ||
+                now < certificate.validFrom.getTime(),
+            certificate,
+        };
+
+        const serial = normalizeSerial(cert.serialNumber);
+        const record = (await this.readDatabase()).find(
+            (record) => normalizeSerial(record.serial) === serial,
+        );
+        if (result.chain && record?.status === 'revoked') {
+            result.revoked = true;
+            result.revokedAt = record.revokedAt;
+            result.revokeReason = record.revokeReason;
+        }
+        if (result.chain && checkCrl) {
+            const entry = (await this.getCrl()).revoked.find(
+                (entry) => normalizeSerial(entry.serial) === serial,
+            );
+            if (entry) {
+                result.revoked = true;
+                result.revokedAt = entry.revokedAt;
+                result.revokeReason = entry.reason;
+            }
+        }
+
+        if (purpose) result.purpose = checkPurpose(certificate, purpose);
+
+        // The key of a PKI certificate is checked when it can be read
+        if (key === undefined && !isPem) {
+            const file = join(this.options.pki, 'private', `${nameOrPem}.key`);
+            if (existsSync(file)) {
+                const content = await readFileAsync(file, { encoding: 'utf8' });
+                if (keyPassword || !content.includes('ENCRYPTED'))
+                    key = content;
+            }
+        }
+        if (key !== undefined)
+            result.keyMatch = checkKeyPair(cert, key, keyPassword);
+
+        result.valid =
+            result.chain &&
+            !result.revoked &&
+            !result.expired &&
+            result.purpose !== false &&
+            result.keyMatch !== false;
+
+        return result;
+    }
+
+    async getExpiring(
+        days: number = this.options.expiryWindow,
+    ): Promise<CertificateRecord[]> {
+        if (!Number.isInteger(days) || days < 0)
+            throw new Error('Days are not valid');
+
+        const limit = Date.now() + days * 24 * 60 * 60 * 1000;
+        const certificates = await this.listCertificates({
+            status: ['valid', 'expired'],
+        });
+        const superseded = await this.gracePeriodSerials();
+
+        return certificates.filter(
+            (cert) =>
+                cert.type !== 'ca' &&
+                !superseded.has(normalizeSerial(cert.serial)) &&
+                cert.notAfter.getTime() <= limit,
+        );
+    }
+
+    // The old certificates of a renewal, still valid for a grace period,
+    // have been renewed already
+    private async gracePeriodSerials(): Promise<Set<string>> {
+        const serials = new Set<string>();
+        for (const name of Object.keys(await this.readGracePeriods())) {
+            try {
+                const cert = new X509Certificate(
+                    await readFileAsync(
+                        join(
+                            this.options.pki,
+                            'renewed',
+                            'issued',
+                            `${name}.crt`,
+                        ),
+                    ),
+                );
+                serials.add(normalizeSerial(cert.serialNumber));
+            } catch {
+                continue;
+            }
+        }
+        return serials;
+    }
+
+    private async exportPkcs(
+        type: 'p12' | 'p7' | 'p8' | 'p1',
+        output: string,
+        {
+            name,
+            password,
+            keyPassword,
+            includeCa = true,
+            ...options
+        }: ExportOptions,
+    ): Promise<ExportResult> {
+        validateName(name);
+
+        return await runOperation(options, async (signal) => {
+            const secrets: CommandOptions = { signal };
+            const easy_args: string[] = [];
+
+            if (type !== 'p7') {
+                if (
+                    !keyPassword &&
+                    (await this.isKeyEncrypted(
+                        join(this.options.pki, 'private', `${name}.key`),
+                    ))
+                ) {
+                    throw new PrivateKeyIsEncryptedError(
+                        'Private key is encrypted',
+                    );
+                }
+
+                if (keyPassword) {
+                    if (!password && type !== 'p12')
+                        throw new Error(
+                            'Export password is required for an encrypted private key',
+                        );
+                    secrets.passin = keyPassword;
+                    secrets.passout = password ?? '';
+                } else if (password) {
+                    secrets.passout = password;
+                } else {
+                    easy_args.push('nopass');
+                }
+            }
+
+            if (!includeCa && (type === 'p12' || type === 'p7'))
+                easy_args.push('noca');
+
+            await this.removeOnAbort([output], () =>
+                this.easyrsa([`export-${type}`, name, ...easy_args], secrets),
+            );
+
+            const path = join(this.options.pki, output);
+            return { path, data: await readFileAsync(path) };
+        });
+    }
+
+    private async isKeyEncrypted(path: string): Promise<boolean> {
+        try {
+            const key = await readFileAsync(path, { encoding: 'utf8' });
+            return key.includes('ENCRYPTED');
         } catch (error) {
-            if (error instanceof Error) throw error;
-            throw new Error('Fail to create crl');
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT')
+                return false;
+            throw error;
         }
     }
+
+    async exportPkcs12(options: ExportOptions): Promise<ExportResult> {
+        return await this.exportPkcs(
+            'p12',
+            join('private', `${options.name}.p12`),
+            options,
+        );
+    }
+
+    async exportPkcs7(
+        options: Omit<ExportOptions, 'password' | 'keyPassword'>,
+    ): Promise<ExportResult> {
+        return await this.exportPkcs(
+            'p7',
+            join('issued', `${options.name}.p7b`),
+            options,
+        );
+    }
+
+    async exportPkcs8(
+        options: Omit<ExportOptions, 'includeCa'>,
+    ): Promise<ExportResult> {
+        return await this.exportPkcs(
+            'p8',
+            join('private', `${options.name}.p8`),
+            options,
+        );
+    }
+
+    async exportPkcs1(
+        options: Omit<ExportOptions, 'includeCa'>,
+    ): Promise<ExportResult> {
+        const { keyAlgorithm } = await this.getCertificate(options.name);
+        if (keyAlgorithm !== 'rsa')
+            throw new UnsupportedAlgorithmError(
+                'PKCS#1 export requires an RSA key',
+            );
+
+        return await this.exportPkcs(
+            'p1',
+            join('private', `${options.name}.p1`),
+            options,
+        );
+    }
+
+    async createOvpnProfile({
+        name,
+        ...options
+    }: OvpnProfileOptions): Promise<string> {
+        validateName(name);
+
+        const tlsKeyMode = options.tlsKeyMode ?? 'tls-auth';
+        const ca = await this.readPkiFile(
+            'ca.crt',
+            () => new CaNotFoundError('CA file not exists'),
+        );
+        const cert = await this.readPkiFile(
+            join('issued', `${name}.crt`),
+            () => new CertificateNotFoundError(),
+        );
+        const key = await this.readPkiFile(
+            join('private', `${name}.key`),
+            () => new CertificateNotFoundError('Private key not exists'),
+        );
+        const tlsKey =
+            tlsKeyMode === 'none'
+                ? undefined
+                : await this.readPkiFile(
+                      'ta.key',
+                      () => new Error('TLS key not exists'),
+                  );
+
+        return buildOvpnProfile(options, { ca, cert, key, tlsKey });
+    }
+
+    private async importRequest(
+        name: string,
+        request: string,
+        signal?: AbortSignal,
+    ) {
+        // Inside the PKI, so executors running elsewhere can read it too
+        const dir = await mkdtemp(join(this.options.pki, 'import-'));
+        try {
+            const file = join(dir, `${name}.req`);
+            await writeFile(file, request, { mode: 0o600 });
+            await this.easyrsa(['import-req', file, name], { signal });
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    }
+
+    async buildSubCa(options: CAOptions = {}): Promise<string> {
+        await this.runBuildCa(options, true);
+        return await this.readPkiFile(
+            join('reqs', 'ca.req'),
+            () => new CaNotFoundError('CA request not exists'),
+        );
+    }
+
+    private async signImportedRequest(
+        type: RequestType | 'ca',
+        name: string,
+        request: string,
+        caPassword: string | undefined,
+        signal: AbortSignal | undefined,
+        opts: string[] = [],
+    ) {
+        validateName(name);
+        requestPublicKey(request);
+
+        if (
+            !caPassword &&
+            (await this.isPrivateKeyEncrypted(
+                join(this.options.pki, 'private', 'ca.key'),
+            ))
+        ) {
+            throw new PrivateKeyIsEncryptedError('CA is encrypted');
+        }
+
+        if (existsSync(join(this.options.pki, 'issued', `${name}.crt`)))
+            throw new CertificateAlreadyExistsError();
+
+        await this.importRequest(name, request, signal);
+
+        try {
+            await this.easyrsa([...opts, 'sign-req', type, name], {
+                passin: caPassword,
+                signal,
+            });
+        } catch (error) {
+            await rm(join(this.options.pki, 'reqs', `${name}.req`), {
+                force: true,
+            });
+            throw error;
+        }
+    }
+
+    async signRequest({
+        name,
+        csrPem,
+        type,
+        caPassword,
+        ...options
+    }: SignRequest): Promise<string> {
+        if (!RequestType.includes(type)) throw new Error('Type is not valid');
+
+        await runOperation(options, (signal) =>
+            this.signImportedRequest(type, name, csrPem, caPassword, signal),
+        );
+
+        return (await this.getCertificate(name)).pem;
+    }
+
+    async signSubCa({
+        name,
+        request,
+        caPassword,
+        pathLength,
+        ...options
+    }: SignSubCa): Promise<string> {
+        if (
+            pathLength !== undefined &&
+            !(Number.isInteger(pathLength) && pathLength >= 0)
+        )
+            throw new Error('Path length not valid');
+
+        await runOperation(options, (signal) =>
+            this.signImportedRequest(
+                'ca',
+                name,
+                request,
+                caPassword,
+                signal,
+                pathLength !== undefined ? [`--subca-len=${pathLength}`] : [],
+            ),
+        );
+
+        return await this.getCertificateChain(name);
+    }
+
+    async installSubCa(chain: string): Promise<void> {
+        const pem = extractPem(chain);
+        let cert: X509Certificate;
+        try {
+            cert = new X509Certificate(pem);
+        } catch {
+            throw new Error('Certificate not valid');
+        }
+        if (!cert.ca) throw new Error('Certificate is not a CA');
+
+        const request = await this.readPkiFile(
+            join('reqs', 'ca.req'),
+            () => new CaNotFoundError('CA request not exists'),
+        );
+        const spki = { type: 'spki', format: 'der' } as const;
+        if (
+            !cert.publicKey
+                .export(spki)
+                .equals(requestPublicKey(request).export(spki))
+        )
+            throw new Error('Certificate does not match the CA request');
+
+        if (existsSync(join(this.options.pki, 'ca.crt')))
+            throw new CaAlreadyExistsError();
+
+        await writeFile(join(this.options.pki, 'ca.crt'), pem);
+    }
+
+    async createSubCa(
+        subCa: EasyRSA,
+        { name, caPassword, pathLength, timeout, ...options }: CreateSubCa,
+    ): Promise<string> {
+        return await runOperation(
+            { signal: options.signal, timeout },
+            async (signal) => {
+                const request = await subCa.buildSubCa({ ...options, signal });
+                const chain = await this.signSubCa({
+                    name,
+                    request,
+                    caPassword,
+                    pathLength,
+                    signal,
+                });
+                await subCa.installSubCa(chain);
+                return chain;
+            },
+        );
+    }
+
+    async getCertificateChain(name: string): Promise<string> {
+        const { pem } = await this.getCertificate(name);
+        const ca = await this.readPkiFile(
+            'ca.crt',
+            () => new CaNotFoundError('CA file not exists'),
+        );
+        return pem + extractPem(ca);
+    }
 }
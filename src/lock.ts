@@ -0,0 +1,70 @@
+import { randomUUID } from 'node:crypto';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { LockTimeoutError } from './errors';
+import { throwIfAborted } from './abort';
+
+export type ReleaseLock = () => Promise<void>;
+
+const retryInterval = 50;
+
+async function readOwner(file: string): Promise<string | undefined> {
+    try {
+        return await readFile(file, { encoding: 'utf8' });
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+        throw error;
+    }
+}
+
+function isAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+// A lock left by a process that no longer exists can be taken over
+async function removeStale(file: string): Promise<boolean> {
+    const owner = await readOwner(file);
+    const pid = Number(owner?.split(' ')[0]);
+    if (owner === undefined) return true;
+    if (!pid || !Number.isInteger(pid) || isAlive(pid)) return false;
+    if ((await readOwner(file)) === owner) await rm(file, { force: true });
+    return true;
+}
+
+// The lock file holds "<pid> <token>" of its owner. When the directory does
+// not exist there is nothing to protect and no lock is taken.
+export async function acquireLock(
+    file: string,
+    deadline: number,
+    signal?: AbortSignal,
+): Promise<ReleaseLock> {
+    const owner = `${process.pid} ${randomUUID()}`;
+
+    for (;;) {
+        try {
+            await writeFile(file, owner, { flag: 'wx' });
+            return async () => {
+                if ((await readOwner(file)) === owner)
+                    await rm(file, { force: true });
+            };
+        } catch (error) {
+            const { code } = error as NodeJS.ErrnoException;
+            if (code === 'ENOENT') return async () => {};
+            if (code !== 'EEXIST') throw error;
+        }
+
+        if (await removeStale(file)) continue;
+        if (Date.now() >= deadline)
+            throw new LockTimeoutError(
+                `Could not acquire the PKI lock ${file}`,
+            );
+        await sleep(retryInterval, undefined, { signal }).catch(() =>
+            throwIfAborted(signal),
+        );
+    }
+}
@@ -0,0 +1,166 @@
+import { execFile } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type EasyRSA from './index';
+import { CaNotFoundError, CertificateNotFoundError } from './errors';
+import { HttpError, HttpService, readBody } from './http';
+
+export interface OcspResponderOptions {
+    signer?: string;
+    password?: string;
+    nextUpdate?: number;
+    openssl?: string;
+    maxBodySize?: number;
+}
+
+// OCSPResponse with only a responseStatus: malformedRequest and internalError
+const MalformedRequest = Buffer.from([0x30, 0x03, 0x0a, 0x01, 0x01]);
+const InternalError = Buffer.from([0x30, 0x03, 0x0a, 0x01, 0x02]);
+
+class MalformedRequestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MalformedRequestError';
+    }
+}
+
+// Answers OCSP requests over HTTP (RFC 6960, POST or GET) with the status of
+// index.txt. openssl signs the responses with the OCSP signing certificate
+// created by createOcspSigner.
+export class OcspResponder extends HttpService {
+    constructor(
+        private easyrsa: EasyRSA,
+        private options: OcspResponderOptions = {},
+    ) {
+        super();
+        if (
+            options.nextUpdate !== undefined &&
+            !(Number.isInteger(options.nextUpdate) && options.nextUpdate > 0)
+        )
+            throw new Error('Next update not valid');
+        if (
+            options.maxBodySize !== undefined &&
+            !(Number.isInteger(options.maxBodySize) && options.maxBodySize > 0)
+        )
+            throw new Error('Max body size not valid');
+    }
+
+    private get files() {
+        const pki = this.easyrsa.getPKIDir();
+        const signer = this.options.signer ?? 'ocsp';
+        return {
+            index: join(pki, 'index.txt'),
+            ca: join(pki, 'ca.crt'),
+            cert: join(pki, 'issued', `${signer}.crt`),
+            key: join(pki, 'private', `${signer}.key`),
+        };
+    }
+
+    async listen(port = 0, host = '127.0.0.1') {
+        this.checkFiles();
+        return await super.listen(port, host);
+    }
+
+    // Returns the DER encoded response for a DER encoded request
+    async respond(request: Buffer): Promise<Buffer> {
+        this.checkFiles();
+        const { index, ca, cert, key } = this.files;
+        const { password, nextUpdate } = this.options;
+
+        const dir = await mkdtemp(join(tmpdir(), 'easyrsa-ocsp-'));
+        try {
+            const reqin = join(dir, 'request.der');
+            const respout = join(dir, 'response.der');
+            await writeFile(reqin, request);
+
+            await new Promise<void>((res, rej) => {
+                execFile(
+                    this.options.openssl ?? 'openssl',
+                    [
+                        'ocsp',
+                        ...['-index', index, '-CA', ca],
+                        ...['-rsigner', cert, '-rkey', key],
+                        ...(password
+                            ? ['-passin', 'env:EASYRSA_WRAPPER_PASSIN']
+                            : []),
+                        ...(nextUpdate ? ['-nmin', `${nextUpdate}`] : []),
+                        ...['-reqin', reqin, '-respout', respout],
+                    ],
+                    {
+                        env: {
+                            ...process.env,
+                            EASYRSA_WRAPPER_PASSIN: password,
+                        },
+                    },
+                    (error, _stdout, stderr) => {
+                        if (!error) return res();
+                        if (/Error (reading|parsing) OCSP request/.test(stderr))
+                            return rej(
+                                new MalformedRequestError('Request not valid'),
+                            );
+                        rej(new Error(stderr.trim() || error.message));
+                    },
+                );
+            });
+
+            return await readFile(respout);
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    }
+
+    handle = (request: IncomingMessage, response: ServerResponse): void => {
+        this.readRequest(request)
+            .then((data) => this.respond(data))
+            .catch((error: Error) => {
+                if (error instanceof HttpError) throw error;
+                if (error instanceof MalformedRequestError)
+                    return MalformedRequest;
+                this.emit('requestFailed', error, request);
+                return InternalError;
+            })
+            .then(
+                (data) => {
+                    response.writeHead(200, {
+                        'Content-Type': 'application/ocsp-response',
+                        'Content-Length': data.length,
+                    });
+                    response.end(data);
+                },
+                (error: HttpError) => {
+                    response.writeHead(error.status);
+                    response.end();
+                },
+            );
+    };
+
+    private async readRequest(request: IncomingMessage): Promise<Buffer> {
+        if (request.method === 'POST')
+            return await readBody(
+                request,
+                this.options.maxBodySize ?? 64 * 1024,
+            );
+        if (request.method !== 'GET')
+            throw new HttpError(405, 'Method not allowed');
+
+        // GET requests carry the base64 request as the path
+        const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+        let encoded: string;
+        try {
+            encoded = decodeURIComponent(path.slice(1));
+        } catch {
+            throw new MalformedRequestError('Request not valid');
+        }
+        return Buffer.from(encoded, 'base64');
+    }
+
+    private checkFiles() {
+        const { ca, cert, key } = this.files;
+        if (!existsSync(ca)) throw new CaNotFoundError('CA file not exists');
+        if (!existsSync(cert) || !existsSync(key))
+            throw new CertificateNotFoundError('OCSP signer not found');
+    }
+}
@@ -0,0 +1,113 @@
+import { extractPem } from './utils';
+
+export const OvpnProtocol = ['udp', 'tcp'] as const;
+export type OvpnProtocol = (typeof OvpnProtocol)[number];
+
+export const TlsKeyMode = ['tls-auth', 'tls-crypt', 'none'] as const;
+export type TlsKeyMode = (typeof TlsKeyMode)[number];
+
+export interface OvpnRemote {
+    host: string;
+    port?: number;
+    proto?: OvpnProtocol;
+}
+
+export interface OvpnProfileOptions {
+    name: string;
+    remotes: (string | OvpnRemote)[];
+    proto?: OvpnProtocol;
+    port?: number;
+    cipher?: string;
+    tlsKeyMode?: TlsKeyMode;
+    extraOptions?: string[];
+}
+
+export interface OvpnCredentials {
+    ca: string;
+    cert: string;
+    key: string;
+    tlsKey?: string;
+}
+
+function validatePort(port: number) {
+    if (!Number.isInteger(port) || port < 1 || port > 65535)
+        throw new Error('Port not valid');
+}
+
+function validateProto(proto: OvpnProtocol) {
+    if (!OvpnProtocol.includes(proto)) throw new Error('Protocol not valid');
+}
+
+function formatRemote(
+    remote: string | OvpnRemote,
+    defaultPort: number,
+): string {
+    const { host, port, proto }: OvpnRemote =
+        typeof remote === 'string' ? { host: remote } : remote;
+
+    if (!host || !/^[a-z0-9.:-]+$/i.test(host))
+        throw new Error('Remote host not valid');
+    if (port !== undefined) validatePort(port);
+    if (proto !== undefined) validateProto(proto);
+
+    return ['remote', host, port ?? (proto ? defaultPort : undefined), proto]
+        .filter((value) => value !== undefined)
+        .join(' ');
+}
+
+export function buildOvpnProfile(
+    {
+        remotes,
+        proto = 'udp',
+        port = 1194,
+        cipher = 'AES-256-GCM',
+        tlsKeyMode = 'tls-auth',
+        extraOptions = [],
+    }: Omit<OvpnProfileOptions, 'name'>,
+    { ca, cert, key, tlsKey }: OvpnCredentials,
+): string {
+    if (!Array.isArray(remotes) || remotes.length === 0)
+        throw new Error('Remotes are required');
+    validateProto(proto);
+    validatePort(port);
+    if (!/^[a-z0-9-]+$/i.test(cipher)) throw new Error('Cipher not valid');
+    if (!TlsKeyMode.includes(tlsKeyMode))
+        throw new Error('TLS key mode not valid');
+    if (extraOptions.some((option) => /[\r\n]/.test(option)))
+        throw new Error('Extra options not valid');
+
+    const lines = [
+        'client',
+        'dev tun',
+        `proto ${proto}`,
+        `port ${port}`,
+        ...remotes.map((remote) => formatRemote(remote, port)),
+        'resolv-retry infinite',
+        'nobind',
+        'persist-key',
+        'persist-tun',
+        'remote-cert-tls server',
+        `cipher ${cipher}`,
+        `data-ciphers ${cipher}`,
+        'verb 3',
+        ...extraOptions,
+    ];
+
+    if (tlsKeyMode === 'tls-auth') lines.push('key-direction 1');
+
+    const inline = (tag: string, content: string) =>
+        `<${tag}>\n${content.trim()}\n</${tag}>`;
+
+    lines.push(
+        inline('ca', extractPem(ca)),
+        inline('cert', extractPem(cert)),
+        inline('key', key),
+    );
+
+    if (tlsKeyMode !== 'none') {
+        if (!tlsKey) throw new Error('TLS key not exists');
+        lines.push(inline(tlsKeyMode, tlsKey));
+    }
+
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,131 @@
+import { EventEmitter } from 'node:events';
+import type EasyRSA from './index';
+import type { CertificateRecord } from './database';
+
+export type CaPasswordProvider = () =>
+    | string
+    | undefined
+    | Promise<string | undefined>;
+
+export interface RenewalSchedulerOptions {
+    interval?: number;
+    days?: number;
+    caPassword?: CaPasswordProvider;
+    genCrl?: boolean;
+    // Days the renewed certificates stay valid, see EasyRSA.renew
+    gracePeriod?: number;
+}
+
+export interface RenewalResult {
+    certificate: CertificateRecord;
+    error?: Error;
+}
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+export class RenewalScheduler extends EventEmitter {
+    private timer?: NodeJS.Timeout;
+    private running?: Promise<RenewalResult[]>;
+
+    constructor(
+        private easyrsa: EasyRSA,
+        private options: RenewalSchedulerOptions = {},
+    ) {
+        super();
+        if (
+            options.interval !== undefined &&
+            !(Number.isInteger(options.interval) && options.interval > 0)
+        )
+            throw new Error('Interval not valid');
+    }
+
+    get isRunning(): boolean {
+        return this.timer !== undefined;
+    }
+
+    start(): this {
+        if (this.timer) return this;
+
+        const run = () => {
+            this.check().catch((error) =>
+                this.emit('checkFailed', toError(error)),
+            );
+        };
+        this.timer = setInterval(run, this.options.interval ?? 86400000);
+        run();
+
+        return this;
+    }
+
+    stop(): this {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        return this;
+    }
+
+    check(): Promise<RenewalResult[]> {
+        if (!this.running) {
+            this.running = this.renewExpiring().finally(() => {
+                this.running = undefined;
+            });
+        }
+        return this.running;
+    }
+
+    private async renewExpiring(): Promise<RenewalResult[]> {
+        const certificates = await this.easyrsa.getExpiring(this.options.days);
+        const pending = (await this.easyrsa.listGracePeriods()).some(
+            ({ until }) => until.getTime() <= Date.now(),
+        );
+        if (!certificates.length && !pending) return [];
+
+        const caPassword = await this.options.caPassword?.();
+        const results: RenewalResult[] = [];
+        let revoked = false;
+
+        // Old certificates whose grace period has ended
+        if (pending) {
+            for (const result of await this.easyrsa.revokeRenewed({
+                caPassword,
+            })) {
+                if (result.error)
+                    this.emit('revokeFailed', result.name, result.error);
+                else this.emit('revoked', result.name);
+                revoked ||= result.revoked;
+            }
+        }
+
+        for (const certificate of certificates) {
+            try {
+                const output = await this.easyrsa.renew({
+                    name: certificate.name,
+                    caPassword,
+                    gracePeriod: this.options.gracePeriod,
+                });
+                results.push({ certificate });
+                this.emit('renewed', certificate, output);
+            } catch (error) {
+                results.push({ certificate, error: toError(error) });
+                this.emit('renewFailed', certificate, toError(error));
+            }
+        }
+
+        if (
+            this.options.genCrl !== false &&
+            (revoked || results.some(({ error }) => !error))
+        ) {
+            try {
+                this.emit(
+                    'crlGenerated',
+                    await this.easyrsa.genCrl(caPassword),
+                );
+            } catch (error) {
+                this.emit('crlFailed', toError(error));
+            }
+        }
+
+        return results;
+    }
+}
@@ -0,0 +1,365 @@
+import { timingSafeEqual } from 'node:crypto';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import type EasyRSA from './index';
+import type {
+    CreateCert,
+    RenewOptions,
+    RequestType,
+    RevokeReason,
+} from './index';
+import type { CaPasswordProvider } from './scheduler';
+import { parseStatuses, parseTypes } from './database';
+import {
+    BadCaPasswordError,
+    BadKeyPasswordError,
+    CaAlreadyExistsError,
+    CaNotFoundError,
+    CertificateAlreadyExistsError,
+    CertificateNotFoundError,
+    CrlNotFoundError,
+    EasyRSAError,
+    InvalidNameError,
+    LockTimeoutError,
+    OperationAbortedError,
+    OperationTimeoutError,
+    PkiDirNotFoundError,
+    PrivateKeyIsEncryptedError,
+    RequestNotFoundError,
+    UnsupportedAlgorithmError,
+} from './errors';
+import { HttpError, HttpService, readBody } from './http';
+
+export type Authenticate = (
+    request: IncomingMessage,
+) => boolean | Promise<boolean>;
+
+export interface ManagementServerOptions {
+    authenticate: Authenticate;
+    caPassword?: CaPasswordProvider;
+    timeout?: number;
+    maxBodySize?: number;
+}
+
+interface IssueBody extends Omit<CreateCert, 'signal' | 'timeout'> {
+    type?: RequestType;
+    csr?: string;
+}
+
+type RenewBody = Omit<RenewOptions, 'signal' | 'timeout' | 'name'>;
+
+// The JSON types of the body fields, any other field is rejected
+const BodyFields = {
+    type: 'string',
+    name: 'string',
+    commonName: 'string',
+    subject: 'object',
+    subjectAltNames: 'array',
+    password: 'string',
+    caPassword: 'string',
+    algo: 'string',
+    curve: 'string',
+    keySize: 'number',
+    csr: 'string',
+    reason: 'string',
+    gracePeriod: 'number',
+} as const;
+
+type BodyField = keyof typeof BodyFields;
+
+const IssueFields: BodyField[] = [
+    'type',
+    'name',
+    'commonName',
+    'subject',
+    'subjectAltNames',
+    'password',
+    'caPassword',
+    'algo',
+    'curve',
+    'keySize',
+];
+const SignFields: BodyField[] = ['type', 'name', 'csr', 'caPassword'];
+const RenewFields: BodyField[] = [
+    'subjectAltNames',
+    'caPassword',
+    'gracePeriod',
+];
+
+function checkFields(body: object, fields: BodyField[]) {
+    for (const [key, value] of Object.entries(body)) {
+        if (!fields.includes(key as BodyField))
+            throw new HttpError(400, `Field not allowed: ${key}`);
+        const type = BodyFields[key as BodyField];
+        if (
+            value === null ||
+            (type === 'array'
+                ? !Array.isArray(value)
+                : typeof value !== type || Array.isArray(value))
+        )
+            throw new HttpError(400, `Field not valid: ${key}`);
+    }
+}
+
+// Checked in order, so the subclasses come before EasyRSAError
+const ErrorStatus: [new (...args: never[]) => Error, number][] = [
+    [InvalidNameError, 400],
+    [UnsupportedAlgorithmError, 400],
+    [BadCaPasswordError, 403],
+    [BadKeyPasswordError, 403],
+    [PrivateKeyIsEncryptedError, 403],
+    [CertificateNotFoundError, 404],
+    [CaNotFoundError, 404],
+    [RequestNotFoundError, 404],
+    [CrlNotFoundError, 404],
+    [CaAlreadyExistsError, 409],
+    [CertificateAlreadyExistsError, 409],
+    [PkiDirNotFoundError, 409],
+    [LockTimeoutError, 503],
+    [OperationAbortedError, 503],
+    [OperationTimeoutError, 504],
+    [EasyRSAError, 500],
+];
+
+function errorStatus(error: Error): number {
+    if (error instanceof HttpError) return error.status;
+    const entry = ErrorStatus.find(([type]) => error instanceof type);
+    if (entry) return entry[1];
+
+    // The validations of EasyRSA throw plain errors
+    return Object.getPrototypeOf(error) === Error.prototype &&
+        !('code' in error)
+        ? 400
+        : 500;
+}
+
+// Accepts "Authorization: Bearer <token>" with any of the given tokens
+export function bearerAuth(tokens: string | string[]): Authenticate {
+    const accepted = (typeof tokens === 'string' ? [tokens] : tokens).map(
+        (token) => Buffer.from(token),
+    );
+    if (!accepted.length || accepted.some((token) => !token.length))
+        throw new Error('Tokens not valid');
+
+    return (request) => {
+        const match = /^Bearer (.+)$/.exec(request.headers.authorization ?? '');
+        if (!match) return false;
+        const token = Buffer.from(match[1]);
+        return accepted.some(
+            (value) =>
+                value.length === token.length && timingSafeEqual(value, token),
+        );
+    };
+}
+
+// Exposes an EasyRSA instance over HTTP with JSON requests and responses
+export class ManagementServer extends HttpService {
+    constructor(
+        private easyrsa: EasyRSA,
+        private options: ManagementServerOptions,
+    ) {
+        super();
+        if (typeof options?.authenticate !== 'function')
+            throw new Error('Authenticate not valid');
+        if (
+            options.maxBodySize !== undefined &&
+            !(Number.isInteger(options.maxBodySize) && options.maxBodySize > 0)
+        )
+            throw new Error('Max body size not valid');
+    }
+
+    handle = (request: IncomingMessage, response: ServerResponse): void => {
+        this.dispatch(request)
+            .then(({ status, body, type }) => {
+                if (type) {
+                    response.writeHead(status, { 'Content-Type': type });
+                    response.end(body);
+                } else {
+                    this.json(response, status, body);
+                }
+            })
+            .catch((error) => {
+                const { name, message } =
+                    error instanceof Error ? error : new Error(String(error));
+                const status = errorStatus(error as Error);
+                if (status >= 500) this.emit('requestFailed', error, request);
+                this.json(response, status, { error: { name, message } });
+            });
+    };
+
+    private json(response: ServerResponse, status: number, body: unknown) {
+        const data = body === undefined ? '' : JSON.stringify(body);
+        response.writeHead(status, {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(data),
+        });
+        response.end(data);
+    }
+
+    private async dispatch(
+        request: IncomingMessage,
+    ): Promise<{ status: number; body: unknown; type?: string }> {
+        if (!(await this.options.authenticate(request)))
+            throw new HttpError(401, 'Unauthorized', 'UnauthorizedError');
+
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        const [resource, name, action, ...rest] = url.pathname
+            .split('/')
+            .slice(1)
+            .map((segment) => {
+                try {
+                    return decodeURIComponent(segment);
+                } catch {
+                    throw new HttpError(400, 'Path not valid');
+                }
+            });
+        const method = request.method ?? 'GET';
+        const route = (methods: string[]) => {
+            if (!methods.includes(method))
+                throw new HttpError(405, 'Method not allowed');
+            return method;
+        };
+        const operation = this.operation();
+
+        if (rest.length) throw new HttpError(404, 'Not found');
+
+        if (resource === 'ca' && name === undefined) {
+            route(['GET']);
+            return { status: 200, body: await this.easyrsa.getCaCertificate() };
+        }
+
+        if (resource === 'crl' && name === undefined) {
+            if (route(['GET', 'POST']) === 'POST') {
+                const { caPassword } = await this.body<{
+                    caPassword?: string;
+                }>(request, ['caPassword']);
+                await this.easyrsa.genCrl(
+                    await this.caPassword(caPassword),
+                    operation,
+                );
+            }
+            return {
+                status: 200,
+                body: (await this.easyrsa.getCrl()).pem,
+                type: 'application/x-pem-file',
+            };
+        }
+
+        if (resource !== 'certificates') throw new HttpError(404, 'Not found');
+
+        if (name === undefined || name === '') {
+            if (route(['GET', 'POST']) === 'GET') {
+                const param = (key: string) => {
+                    const values = url.searchParams.getAll(key);
+                    return values.length ? values : undefined;
+                };
+                return {
+                    status: 200,
+                    body: await this.easyrsa.listCertificates({
+                        status: parseStatuses(param('status')),
+                        type: parseTypes(param('type')),
+                        name: url.searchParams.get('name') ?? undefined,
+                    }),
+                };
+            }
+            return { status: 201, body: await this.issue(request) };
+        }
+
+        if (action === undefined) {
+            route(['GET']);
+            return {
+                status: 200,
+                body: await this.easyrsa.getCertificate(name),
+            };
+        }
+
+        if (action === 'revoke') {
+            route(['POST']);
+            const { reason = 'unspecified', caPassword } = await this.body<{
+                reason?: RevokeReason;
+                caPassword?: string;
+            }>(request, ['reason', 'caPassword']);
+            await this.easyrsa.revoke({
+                name,
+                reason,
+                caPassword: await this.caPassword(caPassword),
+                ...operation,
+            });
+            return { status: 200, body: { name, reason } };
+        }
+
+        if (action === 'renew') {
+            route(['POST']);
+            const body = await this.body<RenewBody>(request, RenewFields);
+            await this.easyrsa.renew({
+                ...body,
+                name,
+                caPassword: await this.caPassword(body.caPassword),
+                ...operation,
+            });
+            return {
+                status: 200,
+                body: await this.easyrsa.getCertificate(name),
+            };
+        }
+
+        throw new HttpError(404, 'Not found');
+    }
+
+    private async issue(request: IncomingMessage) {
+        const { type, csr, ...body } = await this.body<IssueBody>(
+            request,
+            (body) => ('csr' in body ? SignFields : IssueFields),
+        );
+        const options = {
+            ...body,
+            caPassword: await this.caPassword(body.caPassword),
+            ...this.operation(),
+        };
+
+        if (csr !== undefined) {
+            await this.easyrsa.signRequest({
+                ...options,
+                csrPem: csr,
+                type: type as RequestType,
+            });
+        } else if (type === 'server') {
+            await this.easyrsa.createServer(options);
+        } else if (type === 'client') {
+            await this.easyrsa.createClient(options);
+        } else {
+            throw new HttpError(400, 'Type is not valid');
+        }
+
+        return await this.easyrsa.getCertificate(body.name);
+    }
+
+    private operation() {
+        return { timeout: this.options.timeout };
+    }
+
+    private async caPassword(password?: string): Promise<string | undefined> {
+        return password ?? (await this.options.caPassword?.());
+    }
+
+    private async body<T extends object>(
+        request: IncomingMessage,
+        fields: BodyField[] | ((body: object) => BodyField[]),
+    ): Promise<T> {
+        const data = await readBody(
+            request,
+            this.options.maxBodySize ?? 1024 * 1024,
+        );
+        if (!data.length) return {} as T;
+
+        let body: unknown;
+        try {
+            body = JSON.parse(data.toString('utf8'));
+        } catch {
+            throw new HttpError(400, 'Body is not valid JSON');
+        }
+        if (!body || typeof body !== 'object' || Array.isArray(body))
+            throw new HttpError(400, 'Body is not valid JSON');
+        checkFields(body, typeof fields === 'function' ? fields(body) : fields);
+        return body as T;
+    }
+}
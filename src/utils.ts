@@ -1,3 +1,105 @@
-export function escapeShell(cmd: string): string {
-    return cmd.replace(/(["'$`\\])/g, '\\$1');
+import { isIP } from 'node:net';
+
+const pemBlock = /-----BEGIN ([A-Z0-9 ]+)-----[\s\S]+?-----END \1-----/g;
+
+export function splitPem(content: string): string[] {
+    return content.match(pemBlock) ?? [];
+}
+
+// easyrsa prepends the certificate text to the PEM in issued/*.crt
+export function extractPem(content: string): string {
+    return splitPem(content)
+        .map((block) => `${block}\n`)
+        .join('');
+}
+
+export function redact(
+    output: string,
+    secrets: (string | undefined)[],
+): string {
+    return secrets.reduce<string>(
+        (text, secret) => (secret ? text.split(secret).join('******') : text),
+        output,
+    );
+}
+
+// easyrsa reports failures as "Easy-RSA error:" or "Error\n-----" blocks
+export function errorMessage(output: string): string {
+    const match =
+        /(?:^Easy-RSA error:|^Error\n-----)\n+([\s\S]+?)(?:\n\n|$)/m.exec(
+            output,
+        );
+    if (match) return match[1].trim();
+
+    const lines = output.trim().split('\n');
+    return lines[lines.length - 1] || 'easyrsa command failed';
+}
+
+export function globToRegExp(glob: string): RegExp {
+    const source = glob
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    return new RegExp(`^${source}$`);
+}
+
+export const SubjectAltNameType = ['DNS', 'IP', 'email', 'URI'] as const;
+export type SubjectAltNameType = (typeof SubjectAltNameType)[number];
+
+export interface SubjectAltName {
+    type: SubjectAltNameType;
+    value: string;
+}
+
+const dnsName =
+    /^(\*\.)?([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+const emailAddress = /^[^\s@,]+@[^\s@,]+$/;
+
+function isValidSubjectAltName({ type, value }: SubjectAltName): boolean {
+    if (typeof value !== 'string' || !value || value.includes(','))
+        return false;
+
+    switch (type) {
+        case 'DNS':
+            return value.length <= 253 && dnsName.test(value);
+        case 'IP':
+            return isIP(value) !== 0;
+        case 'email':
+            return emailAddress.test(value);
+        case 'URI':
+            try {
+                new URL(value);
+                return !/\s/.test(value);
+            } catch {
+                return false;
+            }
+        default:
+            return false;
+    }
+}
+
+export function formatSubjectAltNames(names: SubjectAltName[]): string {
+    if (!Array.isArray(names) || names.length === 0)
+        throw new Error('Subject alternative names not valid');
+
+    for (const name of names) {
+        if (!SubjectAltNameType.includes(name?.type))
+            throw new Error('Subject alternative name type not valid');
+        if (!isValidSubjectAltName(name))
+            throw new Error(
+                `Subject alternative name not valid: ${name.type}:${name.value}`,
+            );
+    }
+
+    return names.map(({ type, value }) => `${type}:${value}`).join(',');
+}
+
+export function defaultServerSubjectAltName(
+    commonName: string,
+): SubjectAltName | undefined {
+    const name: SubjectAltName = {
+        type: isIP(commonName) ? 'IP' : 'DNS',
+        value: commonName,
+    };
+    return isValidSubjectAltName(name) ? name : undefined;
 }
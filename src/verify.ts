@@ -0,0 +1,89 @@
+import {
+    X509Certificate,
+    createPrivateKey,
+    createPublicKey,
+} from 'node:crypto';
+import type { CertificateInfo } from './certificate';
+import type { RevokeReason } from './index';
+import { BadKeyPasswordError, PrivateKeyIsEncryptedError } from './errors';
+
+export const CertificatePurpose = [
+    'client',
+    'server',
+    'serverClient',
+    'ocsp',
+] as const;
+export type CertificatePurpose = (typeof CertificatePurpose)[number];
+
+export interface VerifyOptions {
+    checkCrl?: boolean;
+    purpose?: CertificatePurpose;
+    key?: string;
+    keyPassword?: string;
+}
+
+export interface VerifyResult {
+    valid: boolean;
+    chain: boolean;
+    revoked: boolean;
+    revokedAt?: Date;
+    revokeReason?: RevokeReason;
+    expired: boolean;
+    // Only set when a purpose is given or the private key is available
+    purpose?: boolean;
+    keyMatch?: boolean;
+    certificate: CertificateInfo;
+}
+
+const PurposeUsage: Record<CertificatePurpose, string[]> = {
+    client: ['clientAuth'],
+    server: ['serverAuth'],
+    serverClient: ['serverAuth', 'clientAuth'],
+    ocsp: ['OCSPSigning'],
+};
+
+// The chain goes from the CA up to the root, as in the ca.crt of a sub-CA.
+// Each certificate must be issued by the next one.
+export function checkChain(cert: X509Certificate, chain: X509Certificate[]) {
+    let subject = cert;
+    for (const issuer of chain) {
+        if (
+            !issuer.ca ||
+            !subject.checkIssued(issuer) ||
+            !subject.verify(issuer.publicKey)
+        )
+            return false;
+        subject = issuer;
+    }
+    return chain.length > 0;
+}
+
+export function checkPurpose(
+    { extendedKeyUsage }: CertificateInfo,
+    purpose: CertificatePurpose,
+): boolean {
+    return PurposeUsage[purpose].every((usage) =>
+        extendedKeyUsage.includes(usage),
+    );
+}
+
+export function checkKeyPair(
+    cert: X509Certificate,
+    key: string,
+    passphrase?: string,
+): boolean {
+    if (!passphrase && key.includes('ENCRYPTED'))
+        throw new PrivateKeyIsEncryptedError('Private key is encrypted');
+
+    let publicKey: Buffer;
+    try {
+        publicKey = createPublicKey(
+            createPrivateKey({ key, passphrase }),
+        ).export({ type: 'spki', format: 'der' });
+    } catch {
+        throw new BadKeyPasswordError('Private key could not be read');
+    }
+    return publicKey.equals(
+        cert.publicKey.export({ type: 'spki', format: 'der' }),
+    );
+}